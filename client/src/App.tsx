@@ -7,12 +7,15 @@ import Home from "@/pages/home";
 import AdminLogin from "@/pages/admin-login";
 import AdminDashboard from "@/pages/admin-dashboard";
 import NotFound from "@/pages/not-found";
+import SharedConversation from "@/pages/shared-conversation";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
       <Route path="/ai" component={Home} />
+      <Route path="/c/:id" component={Home} />
+      <Route path="/s/:token" component={SharedConversation} />
       <Route path="/admin" component={AdminLogin} />
       <Route path="/admin/dashboard" component={AdminDashboard} />
       <Route component={NotFound} />
@@ -3,10 +3,10 @@ import { useMutation } from '@tanstack/react-query';
 import { queryClient } from '@/lib/queryClient';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
-import { Send, Mic, MicOff, Loader2, Sparkles, Brain, Zap, Paperclip, X, FileText, Link2 } from 'lucide-react';
+import { Send, Mic, MicOff, Loader2, Sparkles, Brain, Zap, Paperclip, X, FileText, Link2, ImageIcon, Pencil, RotateCcw, ChevronLeft, ChevronRight } from 'lucide-react';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { api, type Message } from '@/lib/api';
+import { api, type AIPersonality, type Message } from '@/lib/api';
 import { useToast } from '@/hooks/use-toast';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { useTypewriter } from '@/hooks/use-typewriter';
@@ -22,7 +22,7 @@ import {
   CarouselItem,
 } from "@/components/ui/carousel";
 
-type AICharacter = 'AUtistic AI' | 'Level 1 ASD' | 'Savantist';
+type AICharacter = AIPersonality;
 
 interface Attachment {
   id: string;
@@ -31,11 +31,14 @@ interface Attachment {
   url?: string;
   preview?: string;
   size?: number;
+  attachmentId?: string; // Server-side ID once uploaded
 }
 
 interface ChatInterfaceProps {
   remainingMessages?: number;
   maxMessages?: number;
+  conversationId?: string; // Conversation to show; undefined starts a new chat
+  onConversationChange?: (conversationId?: string) => void;
 }
 
 const SUGGESTED_PROMPTS = [
@@ -44,12 +47,17 @@ const SUGGESTED_PROMPTS = [
   { id: '3', label: 'full-port $au gud?', prompt: 'full-port $au gud?' },
 ];
 
+// Titles are generated in the background after the first reply
+const TITLE_REFRESH_DELAY_MS = 5000;
+
 // RFC 3986 compliant URL detection regex
 const URL_REGEX = /(?:(?:https?|ftp):\/\/)?(?:www\.)?[-a-zA-Z0-9@:%._\+~#=]{1,256}\.[a-zA-Z0-9()]{1,6}\b(?:[-a-zA-Z0-9()@:%_\+.~#?&\/=]*)/gi;
 
 export default function ChatInterface({ 
   remainingMessages = 5, 
-  maxMessages = 5 
+  maxMessages = 5,
+  conversationId: activeConversationId,
+  onConversationChange,
 }: ChatInterfaceProps) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
@@ -62,8 +70,16 @@ export default function ChatInterface({
   const [attachments, setAttachments] = useState<Attachment[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [isFocused, setIsFocused] = useState(false);
+  const [streamingReply, setStreamingReply] = useState<string | null>(null);
+  const [requestImage, setRequestImage] = useState(false);
+  const [isGeneratingImage, setIsGeneratingImage] = useState(false);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState('');
+  const streamAbortRef = useRef<AbortController | null>(null);
+  const createdConversationRef = useRef<string | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const previewUrlsRef = useRef<Set<string>>(new Set());
   const { toast } = useToast();
   const isMobile = useIsMobile();
   const placeholderText = useTypewriter();
@@ -72,6 +88,66 @@ export default function ChatInterface({
     setLocalRemaining(remainingMessages);
   }, [remainingMessages]);
 
+  // Cancel any in-flight reply stream when the chat unmounts
+  useEffect(() => {
+    return () => streamAbortRef.current?.abort();
+  }, []);
+
+  // Image previews are object URLs; release each one once its attachment is removed or sent
+  useEffect(() => {
+    const previews = new Set(attachments.flatMap(a => (a.preview ? [a.preview] : [])));
+    previewUrlsRef.current.forEach(url => {
+      if (!previews.has(url)) URL.revokeObjectURL(url);
+    });
+    previewUrlsRef.current = previews;
+  }, [attachments]);
+
+  useEffect(() => {
+    return () => previewUrlsRef.current.forEach(url => URL.revokeObjectURL(url));
+  }, []);
+
+  // Load the thread when another conversation is opened, or reset for a new chat.
+  // A conversation this chat just created is already on screen and is left alone.
+  useEffect(() => {
+    if (activeConversationId === conversationId) return;
+    if (activeConversationId && activeConversationId === createdConversationRef.current) {
+      createdConversationRef.current = null;
+      return;
+    }
+
+    streamAbortRef.current?.abort();
+    setConversationId(activeConversationId);
+    setMessages([]);
+    setStreamingReply(null);
+    setAttachments([]);
+    setEditingMessageId(null);
+    if (!activeConversationId) return;
+
+    let cancelled = false;
+    api.conversations.getMessages(activeConversationId)
+      .then((thread) => {
+        if (cancelled) return;
+        setMessages(thread);
+        const lastPersonality = [...thread].reverse().find(message => message.metadata?.personality)?.metadata?.personality;
+        if (lastPersonality) {
+          setSelectedCharacter(lastPersonality);
+        }
+      })
+      .catch(() => {
+        if (cancelled) return;
+        toast({
+          title: "Conversation not found",
+          description: "It may have been deleted or belong to another session.",
+          variant: "destructive",
+        });
+        onConversationChange?.(undefined);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeConversationId]);
+
   useLayoutEffect(() => {
     if (textareaRef.current) {
       textareaRef.current.style.height = 'auto';
@@ -108,20 +184,68 @@ export default function ChatInterface({
     }
   }, [input]);
 
+  // Reload the active branch so version counts include the reply that just finished
+  const refreshThread = (id: string) => {
+    api.conversations.getMessages(id)
+      .then(setMessages)
+      .catch(() => {});
+  };
+
   const sendMessageMutation = useMutation({
-    mutationFn: async (content: string) => {
-      return api.messages.send(content, conversationId, false);
+    mutationFn: async ({ content, editOf }: { content: string; editOf?: string }) => {
+      const abortController = new AbortController();
+      streamAbortRef.current = abortController;
+
+      return api.messages.stream({
+        content,
+        conversationId,
+        editOf,
+        requestImage,
+        personality: selectedCharacter,
+        attachmentIds: attachments
+          .map(attachment => attachment.attachmentId)
+          .filter((id): id is string => !!id),
+        urls: attachments
+          .filter(attachment => attachment.type === 'url' && attachment.url)
+          .map(attachment => attachment.url!),
+      }, {
+        onStart: ({ conversation, userMessage }) => {
+          if (!conversationId) {
+            setConversationId(conversation.id);
+            createdConversationRef.current = conversation.id;
+            onConversationChange?.(conversation.id);
+          }
+          setMessages(prev => [...prev, userMessage]);
+          setStreamingReply('');
+        },
+        onDelta: (text) => {
+          setStreamingReply(prev => (prev ?? '') + text);
+        },
+        onStatus: (stage) => {
+          setIsGeneratingImage(stage === 'generating_image');
+        },
+      }, abortController.signal);
     },
-    onSuccess: (data) => {
-      if (!conversationId) {
-        setConversationId(data.conversation.id);
-      }
-      setMessages(prev => [...prev, data.userMessage, data.aiMessage]);
+    onSuccess: (data, variables) => {
+      setMessages(prev => [...prev, data.aiMessage]);
+      setStreamingReply(null);
+      setIsGeneratingImage(false);
+      setRequestImage(false);
       setLocalRemaining(data.rateLimit.remaining);
       setAttachments([]); // Clear attachments after send
       queryClient.invalidateQueries({ queryKey: ['session'] });
+      queryClient.invalidateQueries({ queryKey: ['conversations'] });
+      if (data.conversation.titleSource === 'message') {
+        setTimeout(() => queryClient.invalidateQueries({ queryKey: ['conversations'] }), TITLE_REFRESH_DELAY_MS);
+      }
+      if (variables.editOf) {
+        refreshThread(data.conversation.id);
+      }
     },
     onError: (error: any) => {
+      setStreamingReply(null);
+      setIsGeneratingImage(false);
+      if (error?.name === 'AbortError') return;
       toast({
         title: "Error",
         description: error.message || "Failed to send message. Please try again.",
@@ -130,12 +254,90 @@ export default function ChatInterface({
     },
   });
 
+  const regenerateMutation = useMutation({
+    mutationFn: async (message: Message) => {
+      const abortController = new AbortController();
+      streamAbortRef.current = abortController;
+
+      return api.messages.regenerate(message.id, { personality: selectedCharacter }, {
+        onStart: () => setStreamingReply(''),
+        onDelta: (text) => {
+          setStreamingReply(prev => (prev ?? '') + text);
+        },
+        onStatus: (stage) => {
+          setIsGeneratingImage(stage === 'generating_image');
+        },
+      }, abortController.signal);
+    },
+    onMutate: (message) => {
+      // The new reply takes the place of the old one on screen
+      setMessages(prev => prev.slice(0, prev.findIndex(m => m.id === message.id)));
+    },
+    onSuccess: (data) => {
+      setMessages(prev => [...prev, data.aiMessage]);
+      setStreamingReply(null);
+      setIsGeneratingImage(false);
+      setLocalRemaining(data.rateLimit.remaining);
+      queryClient.invalidateQueries({ queryKey: ['session'] });
+      queryClient.invalidateQueries({ queryKey: ['conversations'] });
+      refreshThread(data.conversation.id);
+    },
+    onError: (error: any) => {
+      setStreamingReply(null);
+      setIsGeneratingImage(false);
+      if (conversationId) refreshThread(conversationId);
+      if (error?.name === 'AbortError') return;
+      toast({
+        title: "Error",
+        description: error.message || "Failed to regenerate reply. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isReplying = sendMessageMutation.isPending || regenerateMutation.isPending;
+
   const handleSend = () => {
-    if (!input.trim() || localRemaining === 0) return;
+    if (!input.trim() || localRemaining === 0 || isUploading || isReplying) return;
     
     const userInput = input;
     setInput('');
-    sendMessageMutation.mutate(userInput);
+    sendMessageMutation.mutate({ content: userInput });
+  };
+
+  const startEditing = (message: Message) => {
+    setEditingMessageId(message.id);
+    setEditValue(message.content);
+  };
+
+  // Send the edited text as a new version of the message; later messages belong to the old branch
+  const submitEdit = (message: Message) => {
+    const content = editValue.trim();
+    setEditingMessageId(null);
+    if (!content || content === message.content || localRemaining === 0 || isReplying) return;
+
+    setMessages(prev => prev.slice(0, prev.findIndex(m => m.id === message.id)));
+    sendMessageMutation.mutate({ content, editOf: message.id });
+  };
+
+  const switchBranchMutation = useMutation({
+    mutationFn: (messageId: string) => api.conversations.switchBranch(conversationId!, messageId),
+    onSuccess: (thread) => setMessages(thread),
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to switch version. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const showSibling = (message: Message, offset: number) => {
+    const siblingIds = message.siblingIds ?? [];
+    const target = siblingIds[siblingIds.indexOf(message.id) + offset];
+    if (target && conversationId && !isReplying) {
+      switchBranchMutation.mutate(target);
+    }
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -155,33 +357,43 @@ export default function ChatInterface({
     });
   };
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files;
-    if (!files) return;
-
-    setIsUploading(true);
-    
-    Array.from(files).forEach(file => {
-      const isImage = file.type.startsWith('image/');
-      const newAttachment: Attachment = {
-        id: Date.now().toString() + Math.random(),
-        type: isImage ? 'image' : 'file',
-        name: file.name,
-        size: file.size,
-        preview: isImage ? URL.createObjectURL(file) : undefined,
-      };
-      setAttachments(prev => [...prev, newAttachment]);
-    });
-
-    // Simulate upload completion - keep uploading state until attachments are added
-    setTimeout(() => {
-      setIsUploading(false);
-    }, 1000);
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files ? Array.from(e.target.files) : [];
 
     // Reset file input
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
+    if (files.length === 0) return;
+
+    setIsUploading(true);
+
+    try {
+      const uploaded = await api.attachments.upload(files);
+
+      setAttachments(prev => [
+        ...prev,
+        ...uploaded.map((summary, index) => {
+          const isImage = summary.kind === 'image';
+          return {
+            id: summary.id,
+            type: isImage ? 'image' : 'file',
+            name: summary.fileName,
+            size: summary.size,
+            preview: isImage ? URL.createObjectURL(files[index]) : undefined,
+            attachmentId: summary.id,
+          } as Attachment;
+        }),
+      ]);
+    } catch (error: any) {
+      toast({
+        title: "Upload failed",
+        description: error.message || "Failed to upload files. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+    }
   };
 
   const removeAttachment = (id: string) => {
@@ -310,7 +522,7 @@ export default function ChatInterface({
           {messages.map((message) => (
             <div
               key={message.id}
-              className={`flex gap-3 ${message.role === 'user' ? 'flex-row-reverse' : 'flex-row'}`}
+              className={`group flex gap-3 ${message.role === 'user' ? 'flex-row-reverse' : 'flex-row'}`}
               data-testid={`message-${message.role}-${message.id}`}
             >
               <Avatar className="h-8 w-8">
@@ -325,15 +537,155 @@ export default function ChatInterface({
                     : 'bg-[#000000] border-[#202020] text-white'
                 }`}
               >
-                <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                {editingMessageId === message.id ? (
+                  <div className="flex flex-col gap-2">
+                    <Textarea
+                      value={editValue}
+                      onChange={(e) => setEditValue(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && !e.shiftKey) {
+                          e.preventDefault();
+                          submitEdit(message);
+                        }
+                        if (e.key === 'Escape') setEditingMessageId(null);
+                      }}
+                      className="min-h-[64px] text-sm bg-transparent border-[#eaeaea] text-white focus-visible:ring-0 focus-visible:ring-offset-0"
+                      autoFocus
+                      data-testid={`input-edit-message-${message.id}`}
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button size="sm" variant="ghost" onClick={() => setEditingMessageId(null)}>
+                        Cancel
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => submitEdit(message)}
+                        disabled={!editValue.trim() || localRemaining === 0 || isReplying}
+                        data-testid={`button-save-edit-${message.id}`}
+                      >
+                        Send
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                )}
+                {message.metadata?.attachments && message.metadata.attachments.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {message.metadata.attachments.map(attachment => (
+                      attachment.kind === 'image' ? (
+                        <img
+                          key={attachment.id}
+                          src={api.attachments.url(attachment.id)}
+                          alt={attachment.fileName}
+                          className="h-24 max-w-[160px] rounded-lg object-cover"
+                          loading="lazy"
+                        />
+                      ) : (
+                        <a
+                          key={attachment.id}
+                          href={api.attachments.url(attachment.id)}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="flex items-center gap-1 rounded-full border border-[#404040] px-2 py-1 text-xs text-gray-300 hover:text-white"
+                        >
+                          <FileText className="h-3 w-3" />
+                          <span className="max-w-[160px] truncate">{attachment.fileName}</span>
+                        </a>
+                      )
+                    ))}
+                  </div>
+                )}
+                {message.metadata?.links && message.metadata.links.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {message.metadata.links.map(link => (
+                      <a
+                        key={link}
+                        href={/^https?:\/\//i.test(link) ? link : `https://${link}`}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="flex items-center gap-1 rounded-full border border-[#404040] px-2 py-1 text-xs text-gray-300 hover:text-white"
+                      >
+                        <Link2 className="h-3 w-3" />
+                        <span className="max-w-[200px] truncate">{link}</span>
+                      </a>
+                    ))}
+                  </div>
+                )}
+                {message.imageUrl && (
+                  <img
+                    src={message.imageUrl}
+                    alt={message.content.substring(0, 100)}
+                    className="mt-2 rounded-xl max-w-full max-h-[512px] object-contain"
+                    loading="lazy"
+                    data-testid={`img-message-${message.id}`}
+                  />
+                )}
                 <p className="mt-1 text-xs opacity-70">
+                  {message.role === 'assistant' && message.metadata?.personality && (
+                    <span data-testid={`text-persona-${message.id}`}>{message.metadata.personality} · </span>
+                  )}
                   {new Date(message.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
                 </p>
               </div>
+              {editingMessageId !== message.id && (
+                <div className="flex items-end gap-1 pb-1 text-xs text-gray-400">
+                  {message.siblingIds && message.siblingIds.length > 1 && (
+                    <div className="flex items-center" data-testid={`branch-switcher-${message.id}`}>
+                      <button
+                        onClick={() => showSibling(message, -1)}
+                        disabled={isReplying || message.siblingIds.indexOf(message.id) === 0}
+                        className="hover:text-white disabled:opacity-40"
+                        aria-label="Previous version"
+                      >
+                        <ChevronLeft className="h-3.5 w-3.5" />
+                      </button>
+                      <span>{message.siblingIds.indexOf(message.id) + 1}/{message.siblingIds.length}</span>
+                      <button
+                        onClick={() => showSibling(message, 1)}
+                        disabled={isReplying || message.siblingIds.indexOf(message.id) === message.siblingIds.length - 1}
+                        className="hover:text-white disabled:opacity-40"
+                        aria-label="Next version"
+                      >
+                        <ChevronRight className="h-3.5 w-3.5" />
+                      </button>
+                    </div>
+                  )}
+                  {!isReplying && localRemaining !== 0 && (
+                    <button
+                      onClick={() => message.role === 'user' ? startEditing(message) : regenerateMutation.mutate(message)}
+                      className="opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-white transition-opacity"
+                      aria-label={message.role === 'user' ? 'Edit message' : 'Regenerate reply'}
+                      data-testid={`button-${message.role === 'user' ? 'edit' : 'regenerate'}-${message.id}`}
+                    >
+                      {message.role === 'user' ? <Pencil className="h-3.5 w-3.5" /> : <RotateCcw className="h-3.5 w-3.5" />}
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
           ))}
 
-          {sendMessageMutation.isPending && (
+          {isReplying && streamingReply && (
+            <div className="flex gap-3 flex-row" data-testid="message-assistant-streaming">
+              <Avatar className="h-8 w-8">
+                <AvatarFallback className="bg-primary text-primary-foreground">
+                  AI
+                </AvatarFallback>
+              </Avatar>
+              <div className="max-w-[80ch] rounded-2xl px-4 py-2 border-2 bg-[#000000] border-[#202020] text-white">
+                <p className="text-sm whitespace-pre-wrap">{streamingReply}</p>
+                {isGeneratingImage && (
+                  <div className="mt-2 flex items-center gap-2 text-xs text-gray-400">
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                    Generating image...
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {isReplying && !streamingReply && (
             <div className="flex gap-3">
               <Avatar className="h-8 w-8">
                 <AvatarFallback className="bg-primary text-primary-foreground">
@@ -420,6 +772,22 @@ export default function ChatInterface({
                 </>
               )}
 
+              {/* Image generation toggle - DESKTOP ONLY (conditionally rendered) */}
+              {!isMobile && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setRequestImage(!requestImage)}
+                  className={`!h-8 !w-8 !min-w-[32px] !min-h-[32px] hover:bg-[#404040] text-gray-400 hover:text-white transition-all rounded-[4px] hover:!rounded-[32px] p-0 ${
+                    requestImage ? 'bg-[#404040] text-white !rounded-[32px]' : ''
+                  }`}
+                  title="Generate an image"
+                  data-testid="button-image-toggle"
+                >
+                  <ImageIcon className="h-3.5 w-3.5" />
+                </Button>
+              )}
+
               {/* Voice recording button - DESKTOP ONLY (conditionally rendered) */}
               {!isMobile && (
                 <Button
@@ -452,7 +820,7 @@ export default function ChatInterface({
                   lineHeight: '20px',
                   height: textareaHeight || '32px'
                 }}
-                disabled={localRemaining === 0 || sendMessageMutation.isPending}
+                disabled={localRemaining === 0 || isReplying}
                 data-testid="input-chat-message"
               />
 
@@ -460,13 +828,13 @@ export default function ChatInterface({
               <Button
                 size="icon"
                 onClick={handleSend}
-                disabled={!input.trim() || localRemaining === 0 || sendMessageMutation.isPending}
+                disabled={!input.trim() || localRemaining === 0 || isReplying || isUploading}
                 className={`!h-8 !w-8 !min-w-[32px] !min-h-[32px] bg-[#efbf04] hover:bg-[#d4af37] text-black flex items-center justify-center transition-all shrink-0 rounded-[32px] hover:!rounded-[32px] ${
-                  sendMessageMutation.isPending ? '!rounded-[32px]' : ''
+                  isReplying ? '!rounded-[32px]' : ''
                 }`}
                 data-testid="button-send-message"
               >
-                {sendMessageMutation.isPending ? (
+                {isReplying ? (
                   <Loader2 className="h-3.5 w-3.5 animate-spin" />
                 ) : (
                   <Send className="h-3.5 w-3.5" />
@@ -536,6 +904,20 @@ export default function ChatInterface({
                     </Button>
                   )}
 
+                  {/* Image generation toggle - MOBILE ONLY (conditionally rendered) */}
+                  {isMobile && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setRequestImage(!requestImage)}
+                      className={`!h-8 !w-8 !min-w-[32px] !min-h-[32px] hover:bg-[#404040] text-gray-400 hover:text-white transition-all rounded-[4px] hover:!rounded-[32px] p-0 ${
+                        requestImage ? 'bg-[#404040] text-white !rounded-[32px]' : ''
+                      }`}
+                    >
+                      <ImageIcon className="h-3.5 w-3.5" />
+                    </Button>
+                  )}
+
                   {/* Voice recording button - MOBILE ONLY (conditionally rendered) */}
                   {isMobile && (
                     <Button
@@ -0,0 +1,311 @@
+import { useRef, useState } from 'react';
+import { useInfiniteQuery, useMutation } from '@tanstack/react-query';
+import { Archive, ArchiveRestore, Download, Loader2, Pencil, Pin, PinOff, RotateCcw, Share2, Trash2, Upload } from 'lucide-react';
+import { queryClient } from '@/lib/queryClient';
+import { SheetClose } from '@/components/ui/sheet';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
+  ContextMenuTrigger,
+} from '@/components/ui/context-menu';
+import { api, type Conversation, type ConversationChanges, type ConversationView, type ExportFormat } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+import ShareDialog from './ShareDialog';
+
+interface ConversationHistoryProps {
+  activeConversationId?: string;
+  onSelect: (conversationId: string) => void;
+  onActiveRemoved?: () => void; // The open conversation was archived or deleted
+  variant?: 'desktop' | 'mobile';
+}
+
+const VIEWS: { view: ConversationView; label: string }[] = [
+  { view: 'active', label: 'Chats' },
+  { view: 'archived', label: 'Archived' },
+  { view: 'deleted', label: 'Trash' },
+];
+
+const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'md', label: 'Markdown' },
+  { format: 'html', label: 'Web page' },
+  { format: 'json', label: 'JSON (re-importable)' },
+];
+
+const STYLES = {
+  desktop: {
+    item: 'w-full flex items-center gap-1 text-left px-3 py-2 text-sm text-white/90 hover:bg-white/10 rounded-lg transition-colors backdrop-blur-sm',
+    active: 'bg-white/10',
+    input: 'w-full px-3 py-2 text-sm bg-white/5 border border-white/20 rounded-lg text-white outline-none',
+    muted: 'px-3 py-2 text-xs text-white/50',
+    tab: 'text-[11px] px-2 py-0.5 rounded-full text-white/60 hover:text-white',
+    tabActive: 'bg-white/10 text-white',
+  },
+  mobile: {
+    item: 'w-full flex items-center gap-1 text-left px-3 py-2 text-sm text-gray-300 hover:bg-[#303030] rounded-lg transition-colors',
+    active: 'bg-[#303030] text-white',
+    input: 'w-full px-3 py-2 text-sm bg-[#303030] border border-[#505050] rounded-lg text-white outline-none',
+    muted: 'px-3 py-2 text-xs text-gray-500',
+    tab: 'text-xs px-2 py-0.5 rounded-full text-gray-400 hover:text-white',
+    tabActive: 'bg-[#303030] text-white',
+  },
+};
+
+export default function ConversationHistory({
+  activeConversationId,
+  onSelect,
+  onActiveRemoved,
+  variant = 'desktop',
+}: ConversationHistoryProps) {
+  const [view, setView] = useState<ConversationView>('active');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [sharing, setSharing] = useState<Conversation | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const styles = STYLES[variant];
+
+  const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ['conversations', view],
+    queryFn: ({ pageParam }) => api.conversations.list(pageParam, view),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  const conversations = data?.pages.flatMap(page => page.conversations) ?? [];
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update conversation. Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, changes }: { id: string; changes: ConversationChanges }) => api.conversations.update(id, changes),
+    onSuccess: (conversation, { changes }) => {
+      setRenamingId(null);
+      queryClient.invalidateQueries({ queryKey: ['conversations'] });
+      if (changes.archived && conversation.id === activeConversationId) {
+        onActiveRemoved?.();
+      }
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: api.conversations.delete,
+    onSuccess: (conversation) => {
+      queryClient.invalidateQueries({ queryKey: ['conversations'] });
+      if (conversation.id === activeConversationId) {
+        onActiveRemoved?.();
+      }
+    },
+    onError,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: api.conversations.restore,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['conversations'] }),
+    onError,
+  });
+
+  const importMutation = useMutation({
+    mutationFn: api.conversations.import,
+    onSuccess: (conversation) => {
+      queryClient.invalidateQueries({ queryKey: ['conversations'] });
+      setView('active');
+      onSelect(conversation.id);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Import failed",
+        description: error.message || "Failed to import conversation. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) importMutation.mutate(file);
+  };
+
+  const startRenaming = (conversation: Conversation) => {
+    setRenamingId(conversation.id);
+    setRenameValue(conversation.title || '');
+  };
+
+  const submitRename = (conversation: Conversation) => {
+    const title = renameValue.trim();
+    if (!title || title === conversation.title) {
+      setRenamingId(null);
+      return;
+    }
+    updateMutation.mutate({ id: conversation.id, changes: { title } });
+  };
+
+  const renderItem = (conversation: Conversation) => {
+    const title = conversation.title || 'New chat';
+
+    if (renamingId === conversation.id) {
+      return (
+        <input
+          key={conversation.id}
+          value={renameValue}
+          onChange={(e) => setRenameValue(e.target.value)}
+          onBlur={() => submitRename(conversation)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') submitRename(conversation);
+            if (e.key === 'Escape') setRenamingId(null);
+          }}
+          maxLength={200}
+          className={styles.input}
+          autoFocus
+          data-testid={`input-rename-conversation-${conversation.id}`}
+        />
+      );
+    }
+
+    // Deleted conversations cannot be opened until they are restored
+    const button = (
+      <button
+        onClick={() => view !== 'deleted' && onSelect(conversation.id)}
+        className={`${styles.item} ${conversation.id === activeConversationId ? styles.active : ''}`}
+        title={title}
+        data-testid={`button-conversation-${conversation.id}`}
+      >
+        {conversation.pinned && <Pin className="h-3 w-3 shrink-0 opacity-60" />}
+        <span className="truncate">{title}</span>
+      </button>
+    );
+
+    return (
+      <ContextMenu key={conversation.id}>
+        <ContextMenuTrigger asChild>
+          {/* Picking a conversation on mobile also closes the history sheet */}
+          {variant === 'mobile' && view !== 'deleted' ? <SheetClose asChild>{button}</SheetClose> : button}
+        </ContextMenuTrigger>
+        <ContextMenuContent className="w-44">
+          {view === 'deleted' ? (
+            <ContextMenuItem onSelect={() => restoreMutation.mutate(conversation.id)}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Restore
+            </ContextMenuItem>
+          ) : (
+            <>
+              <ContextMenuItem onSelect={() => startRenaming(conversation)}>
+                <Pencil className="mr-2 h-4 w-4" />
+                Rename
+              </ContextMenuItem>
+              <ContextMenuItem
+                onSelect={() => updateMutation.mutate({ id: conversation.id, changes: { pinned: !conversation.pinned } })}
+              >
+                {conversation.pinned ? <PinOff className="mr-2 h-4 w-4" /> : <Pin className="mr-2 h-4 w-4" />}
+                {conversation.pinned ? 'Unpin' : 'Pin'}
+              </ContextMenuItem>
+              <ContextMenuItem
+                onSelect={() => updateMutation.mutate({ id: conversation.id, changes: { archived: view !== 'archived' } })}
+              >
+                {view === 'archived' ? <ArchiveRestore className="mr-2 h-4 w-4" /> : <Archive className="mr-2 h-4 w-4" />}
+                {view === 'archived' ? 'Unarchive' : 'Archive'}
+              </ContextMenuItem>
+              <ContextMenuItem onSelect={() => setSharing(conversation)}>
+                <Share2 className="mr-2 h-4 w-4" />
+                Share
+              </ContextMenuItem>
+              <ContextMenuSub>
+                <ContextMenuSubTrigger>
+                  <Download className="mr-2 h-4 w-4" />
+                  Export
+                </ContextMenuSubTrigger>
+                <ContextMenuSubContent>
+                  {EXPORT_FORMATS.map(option => (
+                    <ContextMenuItem key={option.format} asChild>
+                      <a href={api.conversations.exportUrl(conversation.id, option.format)} download>
+                        {option.label}
+                      </a>
+                    </ContextMenuItem>
+                  ))}
+                </ContextMenuSubContent>
+              </ContextMenuSub>
+              <ContextMenuSeparator />
+              <ContextMenuItem
+                onSelect={() => deleteMutation.mutate(conversation.id)}
+                className="text-red-500 focus:text-red-500"
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete
+              </ContextMenuItem>
+            </>
+          )}
+        </ContextMenuContent>
+      </ContextMenu>
+    );
+  };
+
+  return (
+    <>
+      <div className="flex gap-1 px-1 pb-1">
+        {VIEWS.map(option => (
+          <button
+            key={option.view}
+            onClick={() => setView(option.view)}
+            className={`${styles.tab} ${view === option.view ? styles.tabActive : ''}`}
+            data-testid={`button-conversations-${option.view}`}
+          >
+            {option.label}
+          </button>
+        ))}
+        <button
+          onClick={() => importInputRef.current?.click()}
+          disabled={importMutation.isPending}
+          className={`${styles.tab} ml-auto`}
+          title="Import a chat from a JSON export"
+          aria-label="Import chat"
+          data-testid="button-import-conversation"
+        >
+          {importMutation.isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : <Upload className="h-3 w-3" />}
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+
+      {isLoading ? (
+        <div className={styles.muted}>
+          <Loader2 className="h-4 w-4 animate-spin" />
+        </div>
+      ) : conversations.length === 0 ? (
+        <div className={styles.muted}>
+          {view === 'active' ? 'No conversations yet' : view === 'archived' ? 'Nothing archived' : 'Trash is empty'}
+        </div>
+      ) : (
+        conversations.map(renderItem)
+      )}
+
+      {hasNextPage && (
+        <button
+          onClick={() => fetchNextPage()}
+          disabled={isFetchingNextPage}
+          className={`${styles.muted} w-full text-left hover:underline`}
+          data-testid="button-load-more-conversations"
+        >
+          {isFetchingNextPage ? 'Loading...' : 'Load more'}
+        </button>
+      )}
+
+      <ShareDialog conversation={sharing} onClose={() => setSharing(null)} />
+    </>
+  );
+}
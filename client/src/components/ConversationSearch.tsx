@@ -0,0 +1,172 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Loader2, Search, SlidersHorizontal, X } from 'lucide-react';
+import { SheetClose } from '@/components/ui/sheet';
+import { api, type AIPersonality, type SearchFilters, type SearchResult } from '@/lib/api';
+
+interface ConversationSearchProps {
+  onSelect: (conversationId: string) => void;
+  variant?: 'desktop' | 'mobile';
+  children: ReactNode; // Shown while there is no search query
+}
+
+const PERSONALITIES: AIPersonality[] = ['AUtistic AI', 'Level 1 ASD', 'Savantist'];
+
+const SEARCH_DELAY_MS = 300;
+
+const STYLES = {
+  desktop: {
+    box: 'flex items-center gap-1 px-2 py-1.5 rounded-lg bg-white/5 border border-white/10 text-white/90 backdrop-blur-sm',
+    input: 'flex-1 min-w-0 bg-transparent text-sm text-white placeholder:text-white/40 outline-none',
+    field: 'w-full min-w-0 px-2 py-1 text-xs bg-white/5 border border-white/10 rounded-lg text-white/90 outline-none [color-scheme:dark]',
+    icon: 'h-3.5 w-3.5 text-white/50',
+    result: 'w-full text-left px-3 py-2 rounded-lg hover:bg-white/10 transition-colors',
+    title: 'text-xs font-semibold text-white/90 truncate',
+    snippet: 'text-xs text-white/70 line-clamp-3',
+    highlight: 'bg-[#efbf04]/30 text-white rounded-sm',
+    muted: 'px-3 py-2 text-xs text-white/50',
+  },
+  mobile: {
+    box: 'flex items-center gap-1 px-2 py-1.5 rounded-lg bg-[#303030] border border-[#505050] text-white',
+    input: 'flex-1 min-w-0 bg-transparent text-sm text-white placeholder:text-gray-500 outline-none',
+    field: 'w-full min-w-0 px-2 py-1 text-xs bg-[#303030] border border-[#505050] rounded-lg text-white outline-none [color-scheme:dark]',
+    icon: 'h-4 w-4 text-gray-400',
+    result: 'w-full text-left px-3 py-2 rounded-lg hover:bg-[#303030] transition-colors',
+    title: 'text-sm font-semibold text-white truncate',
+    snippet: 'text-xs text-gray-300 line-clamp-3',
+    highlight: 'bg-[#efbf04]/30 text-white rounded-sm',
+    muted: 'px-3 py-2 text-xs text-gray-500',
+  },
+};
+
+export default function ConversationSearch({ onSelect, variant = 'desktop', children }: ConversationSearchProps) {
+  const [input, setInput] = useState('');
+  const [query, setQuery] = useState('');
+  const [showFilters, setShowFilters] = useState(false);
+  const [personality, setPersonality] = useState<AIPersonality | ''>('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const styles = STYLES[variant];
+
+  // Search once typing pauses
+  useEffect(() => {
+    const timeout = setTimeout(() => setQuery(input.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [input]);
+
+  // Date inputs are local calendar days; the range covers both days completely
+  const filters: SearchFilters = {
+    personality: personality || undefined,
+    from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+    to: toDate ? new Date(`${toDate}T23:59:59.999`).toISOString() : undefined,
+  };
+
+  const { data, isFetching, isError } = useQuery({
+    queryKey: ['search', query, filters],
+    queryFn: ({ signal }) => api.search(query, filters, signal),
+    enabled: query.length > 0,
+    staleTime: 0, // New messages change the results, so never reuse them across searches
+  });
+
+  const renderResult = (result: SearchResult) => {
+    const button = (
+      <button
+        onClick={() => onSelect(result.conversationId)}
+        className={styles.result}
+        data-testid={`button-search-result-${result.messageId ?? result.conversationId}`}
+      >
+        <div className={styles.title}>{result.conversationTitle || 'New chat'}</div>
+        <p className={styles.snippet}>
+          {result.messageId && (
+            <span className="opacity-60">{result.role === 'user' ? 'You' : result.personality ?? 'AI'}: </span>
+          )}
+          {result.snippet.map((segment, index) => (
+            segment.match
+              ? <mark key={index} className={styles.highlight}>{segment.text}</mark>
+              : <span key={index}>{segment.text}</span>
+          ))}
+        </p>
+        <div className="text-[10px] opacity-50">{new Date(result.createdAt).toLocaleDateString()}</div>
+      </button>
+    );
+
+    const key = `${result.conversationId}-${result.messageId ?? 'title'}`;
+    // Picking a result on mobile also closes the history sheet
+    return variant === 'mobile'
+      ? <SheetClose asChild key={key}>{button}</SheetClose>
+      : <div key={key}>{button}</div>;
+  };
+
+  return (
+    <>
+      <div className="space-y-1 pb-1">
+        <div className={styles.box}>
+          <Search className={styles.icon} />
+          <input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={(e) => e.key === 'Escape' && setInput('')}
+            placeholder="Search chats"
+            maxLength={200}
+            className={styles.input}
+            data-testid="input-search-conversations"
+          />
+          {input && (
+            <button onClick={() => setInput('')} aria-label="Clear search">
+              <X className={styles.icon} />
+            </button>
+          )}
+          <button onClick={() => setShowFilters(!showFilters)} aria-label="Search filters" data-testid="button-search-filters">
+            <SlidersHorizontal className={`${styles.icon} ${showFilters ? '!text-[#efbf04]' : ''}`} />
+          </button>
+        </div>
+
+        {showFilters && (
+          <div className="grid grid-cols-2 gap-1">
+            <select
+              value={personality}
+              onChange={(e) => setPersonality(e.target.value as AIPersonality | '')}
+              className={`${styles.field} col-span-2`}
+              data-testid="select-search-personality"
+            >
+              <option value="">Any persona</option>
+              {PERSONALITIES.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className={styles.field}
+              aria-label="From date"
+              data-testid="input-search-from"
+            />
+            <input
+              type="date"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className={styles.field}
+              aria-label="To date"
+              data-testid="input-search-to"
+            />
+          </div>
+        )}
+      </div>
+
+      {!query ? (
+        children
+      ) : isFetching && !data ? (
+        <div className={styles.muted}>
+          <Loader2 className="h-4 w-4 animate-spin" />
+        </div>
+      ) : isError ? (
+        <div className={styles.muted}>Search failed. Please try again.</div>
+      ) : data && data.results.length > 0 ? (
+        data.results.map(renderResult)
+      ) : (
+        <div className={styles.muted}>No matches</div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { queryClient } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Check, Pencil, Trash2, X } from 'lucide-react';
+import { api, type Memory } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+
+interface MemoryBankProps {
+  variant?: 'desktop' | 'mobile';
+}
+
+const STYLES = {
+  desktop: {
+    description: 'text-xs text-white/70 mb-2',
+    input: 'min-h-[80px] bg-white/5 border-white/10 text-white/90 placeholder:text-white/40 text-xs resize-none backdrop-blur-sm',
+    item: 'group flex items-start gap-1 rounded-lg bg-white/5 border border-white/10 px-2 py-1 text-xs text-white/80 backdrop-blur-sm',
+    button: 'bg-white/10 hover:bg-white/20 text-white border border-white/20',
+    usage: 'text-[10px] text-white/50',
+  },
+  mobile: {
+    description: 'text-xs text-gray-400 mb-2',
+    input: 'min-h-[120px] bg-[#303030] border-[#404040] text-white placeholder:text-gray-500 text-sm resize-none',
+    item: 'group flex items-start gap-1 rounded-lg bg-[#303030] border border-[#404040] px-2 py-1 text-sm text-gray-300',
+    button: 'bg-[#303030] hover:bg-[#404040] text-white border border-[#505050]',
+    usage: 'text-[10px] text-gray-500',
+  },
+};
+
+export default function MemoryBank({ variant = 'desktop' }: MemoryBankProps) {
+  const [draft, setDraft] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingContent, setEditingContent] = useState('');
+  const { toast } = useToast();
+  const styles = STYLES[variant];
+
+  const { data } = useQuery({
+    queryKey: ['memories'],
+    queryFn: api.memories.list,
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Memory Bank",
+      description: error.message || "Failed to save memory. Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: api.memories.create,
+    onSuccess: () => {
+      setDraft('');
+      queryClient.invalidateQueries({ queryKey: ['memories'] });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, content }: { id: string; content: string }) => api.memories.update(id, content),
+    onSuccess: () => {
+      setEditingId(null);
+      queryClient.invalidateQueries({ queryKey: ['memories'] });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: api.memories.delete,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['memories'] }),
+    onError,
+  });
+
+  const startEditing = (memory: Memory) => {
+    setEditingId(memory.id);
+    setEditingContent(memory.content);
+  };
+
+  const handleAdd = () => {
+    if (!draft.trim() || createMutation.isPending) return;
+    createMutation.mutate(draft.trim());
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleAdd();
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className={styles.description}>
+        Write everything here you want AUlon to remember
+      </p>
+
+      {data && data.memories.length > 0 && (
+        <div className="space-y-1 max-h-48 overflow-y-auto">
+          {data.memories.map(memory => (
+            <div key={memory.id} className={styles.item} data-testid={`memory-${memory.id}`}>
+              {editingId === memory.id ? (
+                <>
+                  <Textarea
+                    value={editingContent}
+                    onChange={(e) => setEditingContent(e.target.value)}
+                    className={`${styles.input} !min-h-[60px] flex-1`}
+                    autoFocus
+                  />
+                  <div className="flex flex-col gap-1">
+                    <button
+                      onClick={() => updateMutation.mutate({ id: memory.id, content: editingContent.trim() })}
+                      disabled={!editingContent.trim() || updateMutation.isPending}
+                      className="opacity-70 hover:opacity-100"
+                      aria-label="Save memory"
+                    >
+                      <Check className="h-3 w-3" />
+                    </button>
+                    <button
+                      onClick={() => setEditingId(null)}
+                      className="opacity-70 hover:opacity-100"
+                      aria-label="Cancel editing"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <span className="flex-1 whitespace-pre-wrap break-words">{memory.content}</span>
+                  <button
+                    onClick={() => startEditing(memory)}
+                    className="opacity-0 group-hover:opacity-70 hover:!opacity-100 transition-opacity"
+                    aria-label="Edit memory"
+                  >
+                    <Pencil className="h-3 w-3" />
+                  </button>
+                  <button
+                    onClick={() => deleteMutation.mutate(memory.id)}
+                    className="opacity-0 group-hover:opacity-70 hover:!opacity-100 transition-opacity"
+                    aria-label="Forget memory"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder="Automagically generated; user appears to be a highly autistic individual."
+        className={styles.input}
+        data-testid="input-memory"
+      />
+      <div className="flex items-center justify-between gap-2">
+        {data && (
+          <span className={styles.usage}>
+            {data.usage.used}/{data.usage.limit} characters
+          </span>
+        )}
+        <Button
+          onClick={handleAdd}
+          disabled={!draft.trim() || createMutation.isPending}
+          className={`ml-auto h-7 px-3 text-xs rounded-lg ${styles.button}`}
+          size="sm"
+          data-testid="button-add-memory"
+        >
+          Remember
+        </Button>
+      </div>
+    </div>
+  );
+}
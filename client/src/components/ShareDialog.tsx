@@ -0,0 +1,127 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Copy, Eye, Link2, Loader2, Trash2 } from 'lucide-react';
+import { queryClient } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { api, type Conversation, type ShareLink } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+
+interface ShareDialogProps {
+  conversation: Conversation | null; // Dialog is open while set
+  onClose: () => void;
+}
+
+export default function ShareDialog({ conversation, onClose }: ShareDialogProps) {
+  const { toast } = useToast();
+  const conversationId = conversation?.id;
+
+  const { data: links, isLoading } = useQuery({
+    queryKey: ['shares', conversationId],
+    queryFn: () => api.shares.list(conversationId!),
+    enabled: !!conversationId,
+    staleTime: 0, // View counts change while the dialog is closed
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update share link. Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const copyLink = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(link.url);
+      toast({ title: "Link copied", description: "Anyone with the link can read this chat." });
+    } catch {
+      toast({ title: "Copy failed", description: link.url, variant: "destructive" });
+    }
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => api.shares.create(conversationId!),
+    onSuccess: (link) => {
+      queryClient.invalidateQueries({ queryKey: ['shares', conversationId] });
+      copyLink(link);
+    },
+    onError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: api.shares.revoke,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['shares', conversationId] }),
+    onError,
+  });
+
+  return (
+    <Dialog open={!!conversation} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-[90vw] sm:max-w-md rounded-[24px] bg-[#000000] border-[#ffffff14] text-white">
+        <DialogHeader>
+          <DialogTitle className="text-white/90">Share chat</DialogTitle>
+          <DialogDescription className="text-white/70">
+            A link shows this chat as it is now, read-only. Messages you send later are not included.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Button
+          onClick={() => createMutation.mutate()}
+          disabled={createMutation.isPending}
+          className="bg-[#efbf04] hover:bg-[#d4af37] text-black gap-2"
+          data-testid="button-create-share-link"
+        >
+          {createMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Link2 className="h-4 w-4" />}
+          Create link
+        </Button>
+
+        <div className="space-y-2 max-h-[40vh] overflow-y-auto">
+          {isLoading ? (
+            <Loader2 className="h-4 w-4 animate-spin text-white/50" />
+          ) : links && links.length > 0 ? (
+            links.map(link => (
+              <div
+                key={link.id}
+                className={`flex items-center gap-2 rounded-lg border border-[#303030] px-3 py-2 text-xs ${link.revokedAt ? 'opacity-50' : ''}`}
+                data-testid={`share-link-${link.id}`}
+              >
+                <div className="min-w-0 flex-1">
+                  <div className={`truncate ${link.revokedAt ? 'line-through' : ''}`}>{link.url}</div>
+                  <div className="flex items-center gap-1 text-white/50">
+                    <Eye className="h-3 w-3" />
+                    {link.viewCount} {link.viewCount === 1 ? 'view' : 'views'}
+                    {' · '}
+                    {link.revokedAt ? 'revoked' : `created ${new Date(link.createdAt).toLocaleDateString()}`}
+                  </div>
+                </div>
+                {!link.revokedAt && (
+                  <>
+                    <button onClick={() => copyLink(link)} className="text-white/60 hover:text-white" aria-label="Copy link">
+                      <Copy className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => revokeMutation.mutate(link.id)}
+                      disabled={revokeMutation.isPending}
+                      className="text-white/60 hover:text-red-500"
+                      aria-label="Revoke link"
+                      data-testid={`button-revoke-share-${link.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </>
+                )}
+              </div>
+            ))
+          ) : (
+            <p className="text-xs text-white/50">This chat has not been shared yet.</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
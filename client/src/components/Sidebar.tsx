@@ -1,33 +1,37 @@
-import { useState } from 'react';
 import { Button } from '@/components/ui/button';
-import { Textarea } from '@/components/ui/textarea';
 import { Plus, Settings, History } from 'lucide-react';
 import {
   Sheet,
+  SheetClose,
   SheetContent,
   SheetDescription,
   SheetHeader,
   SheetTitle,
   SheetTrigger,
 } from '@/components/ui/sheet';
+import MemoryBank from './MemoryBank';
+import ConversationHistory from './ConversationHistory';
+import ConversationSearch from './ConversationSearch';
 
 interface SidebarProps {
   infoSidebarWidth: number;
   isInfoSidebarCollapsed: boolean;
   isCollapsed: boolean;
   onUpgradeClick?: () => void;
+  activeConversationId?: string;
+  onSelectConversation: (conversationId: string) => void;
+  onNewChat: () => void;
 }
 
-export default function Sidebar({ infoSidebarWidth, isInfoSidebarCollapsed, isCollapsed, onUpgradeClick }: SidebarProps) {
-  const [memoryBank, setMemoryBank] = useState('');
-  const [conversations, setConversations] = useState([
-    'Robot revolution',
-    'Why she broke up with y...',
-    'Your meme portfolio',
-    'Carrot cake recipe',
-    'AI-generated autism cat'
-  ]);
-
+export default function Sidebar({
+  infoSidebarWidth,
+  isInfoSidebarCollapsed,
+  isCollapsed,
+  onUpgradeClick,
+  activeConversationId,
+  onSelectConversation,
+  onNewChat,
+}: SidebarProps) {
   const isVisible = !isCollapsed;
 
   return (
@@ -56,7 +60,7 @@ export default function Sidebar({ infoSidebarWidth, isInfoSidebarCollapsed, isCo
           {/* New Chat Button */}
           <div className="mb-3">
             <Button
-              onClick={() => {}}
+              onClick={onNewChat}
               className="w-full bg-white/10 hover:bg-white/20 text-white border border-white/20 rounded-lg justify-start gap-2 backdrop-blur-sm"
               size="sm"
             >
@@ -67,28 +71,20 @@ export default function Sidebar({ infoSidebarWidth, isInfoSidebarCollapsed, isCo
 
           {/* Conversation History */}
           <div className="flex-1 overflow-y-auto space-y-1 mb-3">
-            {conversations.map((conv, index) => (
-              <button
-                key={index}
-                className="w-full text-left px-3 py-2 text-sm text-white/90 hover:bg-white/10 rounded-lg transition-colors backdrop-blur-sm"
-              >
-                {conv}
-              </button>
-            ))}
+            <ConversationSearch onSelect={onSelectConversation} variant="desktop">
+              <ConversationHistory
+                activeConversationId={activeConversationId}
+                onSelect={onSelectConversation}
+                onActiveRemoved={onNewChat}
+                variant="desktop"
+              />
+            </ConversationSearch>
           </div>
 
           {/* Memory Bank */}
           <div className="border-t border-white/10 pt-3 mb-3">
             <h3 className="text-sm font-semibold text-white mb-2">Memory Bank</h3>
-            <p className="text-xs text-white/70 mb-2">
-              Write everything here you want AUlon to remember
-            </p>
-            <Textarea
-              value={memoryBank}
-              onChange={(e) => setMemoryBank(e.target.value)}
-              placeholder="Automagically generated; user appears to be a highly autistic individual."
-              className="min-h-[80px] bg-white/5 border-white/10 text-white/90 placeholder:text-white/40 text-xs resize-none backdrop-blur-sm"
-            />
+            <MemoryBank variant="desktop" />
           </div>
 
           {/* AUtism Summary */}
@@ -163,15 +159,7 @@ export default function Sidebar({ infoSidebarWidth, isInfoSidebarCollapsed, isCo
 
                   <div>
                     <h3 className="text-sm font-semibold text-white mb-2">Memory Bank</h3>
-                    <p className="text-xs text-gray-400 mb-2">
-                      Write everything here you want AUlon to remember
-                    </p>
-                    <Textarea
-                      value={memoryBank}
-                      onChange={(e) => setMemoryBank(e.target.value)}
-                      placeholder="Automagically generated; user appears to be a highly autistic individual."
-                      className="min-h-[120px] bg-[#303030] border-[#404040] text-white placeholder:text-gray-500 text-sm resize-none"
-                    />
+                    <MemoryBank variant="mobile" />
                   </div>
                 </div>
               </SheetContent>
@@ -190,25 +178,27 @@ export default function Sidebar({ infoSidebarWidth, isInfoSidebarCollapsed, isCo
             </SheetHeader>
             <div className="mt-4 space-y-4">
               {/* New Chat Button */}
-              <Button
-                onClick={() => {}}
-                className="w-full bg-[#303030] hover:bg-[#404040] text-white border border-[#505050] rounded-lg justify-start gap-2"
-                size="sm"
-              >
-                <Plus className="h-4 w-4" />
-                New chat
-              </Button>
+              <SheetClose asChild>
+                <Button
+                  onClick={onNewChat}
+                  className="w-full bg-[#303030] hover:bg-[#404040] text-white border border-[#505050] rounded-lg justify-start gap-2"
+                  size="sm"
+                >
+                  <Plus className="h-4 w-4" />
+                  New chat
+                </Button>
+              </SheetClose>
 
               {/* Conversations */}
               <div className="space-y-1">
-                {conversations.map((conv, index) => (
-                  <button
-                    key={index}
-                    className="w-full text-left px-3 py-2 text-sm text-gray-300 hover:bg-[#303030] rounded-lg transition-colors"
-                  >
-                    {conv}
-                  </button>
-                ))}
+                <ConversationSearch onSelect={onSelectConversation} variant="mobile">
+                  <ConversationHistory
+                    activeConversationId={activeConversationId}
+                    onSelect={onSelectConversation}
+                    onActiveRemoved={onNewChat}
+                    variant="mobile"
+                  />
+                </ConversationSearch>
               </div>
 
               {/* AUtism Summary */}
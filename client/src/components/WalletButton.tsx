@@ -27,6 +27,7 @@ export default function WalletButton({ onConnect, onDisconnect }: WalletButtonPr
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['session'] });
+      queryClient.invalidateQueries({ queryKey: ['memories'] });
       toast({
         title: "Wallet Connected",
         description: "Your Solana wallet has been connected successfully.",
@@ -47,6 +48,7 @@ export default function WalletButton({ onConnect, onDisconnect }: WalletButtonPr
     mutationFn: api.wallet.disconnect,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['session'] });
+      queryClient.invalidateQueries({ queryKey: ['memories'] });
       toast({
         title: "Wallet Disconnected",
         description: "Your wallet has been disconnected.",
@@ -16,14 +16,37 @@ export interface SessionInfo {
   };
 }
 
+export type AIPersonality = 'AUtistic AI' | 'Level 1 ASD' | 'Savantist';
+
+export interface AttachmentSummary {
+  id: string;
+  kind: 'image' | 'document';
+  fileName: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface MessageMetadata {
+  personality?: AIPersonality;
+  attachments?: AttachmentSummary[];
+  links?: string[];
+  streamed?: boolean;
+  aborted?: boolean;
+  error?: boolean;
+  [key: string]: unknown;
+}
+
 export interface Message {
   id: string;
   conversationId: string;
+  parentMessageId?: string | null;
+  siblingIds?: string[]; // All versions at this point of the thread, when loaded from the server
   role: 'user' | 'assistant';
   content: string;
   isImage: boolean;
   imageUrl?: string | null;
   audioUrl?: string | null;
+  metadata?: MessageMetadata | null;
   createdAt: string;
 }
 
@@ -31,10 +54,101 @@ export interface Conversation {
   id: string;
   sessionId: string;
   title?: string | null;
+  titleSource: 'message' | 'generated' | 'user'; // 'message' until a title is generated or set
+  pinned: boolean;
+  archivedAt?: string | null;
+  deletedAt?: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export type ConversationView = 'active' | 'archived' | 'deleted';
+
+export interface ConversationChanges {
+  title?: string;
+  pinned?: boolean;
+  archived?: boolean;
+}
+
+export type ExportFormat = 'md' | 'json' | 'html';
+
+export interface ConversationPage {
+  conversations: Conversation[];
+  nextCursor: string | null;
+}
+
+export interface ShareLink {
+  id: string;
+  token: string;
+  url: string;
+  viewCount: number;
+  lastViewedAt?: string | null;
+  revokedAt?: string | null;
+  createdAt: string;
+}
+
+export interface SharedConversation {
+  title: string | null;
+  sharedAt: string;
+  messages: {
+    role: 'user' | 'assistant';
+    content: string;
+    personality: AIPersonality | null;
+    imageUrl: string | null;
+    createdAt: string;
+  }[];
+}
+
+export interface SearchFilters {
+  personality?: AIPersonality;
+  from?: string; // ISO date
+  to?: string;
+}
+
+export interface SearchResult {
+  conversationId: string;
+  conversationTitle: string | null;
+  messageId: string | null; // Null when the conversation title matched
+  role: 'user' | 'assistant' | null;
+  personality: AIPersonality | null;
+  snippet: { text: string; match: boolean }[];
+  createdAt: string;
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+}
+
+export interface Memory {
+  id: string;
+  content: string;
+  walletAddress?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MemoryBank {
+  memories: Memory[];
+  usage: {
+    used: number;
+    limit: number;
+  };
+}
+
+export interface SendMessageParams {
+  content: string;
+  conversationId?: string;
+  requestImage?: boolean;
+  personality?: AIPersonality;
+  attachmentIds?: string[];
+  urls?: string[];
+  editOf?: string; // User message this one replaces, as a new branch
+}
+
+export interface RegenerateMessageParams {
+  personality?: AIPersonality;
+}
+
 export interface SendMessageResponse {
   conversation: Conversation;
   userMessage: Message;
@@ -46,6 +160,25 @@ export interface SendMessageResponse {
   };
 }
 
+export interface StreamMessageHandlers {
+  onStart?: (data: { conversation: Conversation; userMessage: Message }) => void;
+  onDelta?: (text: string) => void;
+  onStatus?: (stage: string) => void;
+}
+
+export interface Voice {
+  id: string;
+  name: string;
+  description: string;
+}
+
+export interface VoiceCatalog {
+  provider: string;
+  voices: Voice[];
+  defaults: Record<string, string>; // Voice ID by personality
+  canChoose: boolean;
+}
+
 export interface VoiceGenerationResponse {
   audioUrl: string;
   secureToken: string;
@@ -57,6 +190,64 @@ export interface VoiceGenerationResponse {
   };
 }
 
+// Parse a text/event-stream response body into { event, data } pairs
+async function* readEventStream(response: Response): AsyncGenerator<{ event: string; data: any }> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      let event = 'message';
+      const dataLines: string[] = [];
+      for (const line of rawEvent.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) dataLines.push(line.slice(5).trim());
+      }
+      if (dataLines.length > 0) {
+        yield { event, data: JSON.parse(dataLines.join('\n')) };
+      }
+    }
+  }
+}
+
+// Follow a streamed reply until its final result
+async function readReplyStream(response: Response, handlers: StreamMessageHandlers): Promise<SendMessageResponse> {
+  let result: SendMessageResponse | undefined;
+  for await (const { event, data } of readEventStream(response)) {
+    switch (event) {
+      case 'start':
+        handlers.onStart?.(data);
+        break;
+      case 'delta':
+        handlers.onDelta?.(data.text);
+        break;
+      case 'status':
+        handlers.onStatus?.(data.stage);
+        break;
+      case 'done':
+        result = data;
+        break;
+      case 'error':
+        throw new Error(data.error || 'Failed to send message');
+    }
+  }
+
+  if (!result) throw new Error('Response stream ended unexpectedly');
+  return result;
+}
+
 export const api = {
   session: {
     get: async (): Promise<SessionInfo> => {
@@ -68,22 +259,22 @@ export const api = {
 
   wallet: {
     connect: async (walletAddress: string) => {
-      return apiRequest('/api/wallet/connect', {
-        method: 'POST',
-        body: JSON.stringify({ walletAddress }),
-      });
+      const response = await apiRequest('POST', '/api/wallet/connect', { walletAddress });
+      return response.json();
     },
 
     disconnect: async () => {
-      return apiRequest('/api/wallet/disconnect', {
-        method: 'POST',
-      });
+      const response = await apiRequest('POST', '/api/wallet/disconnect');
+      return response.json();
     },
   },
 
   conversations: {
-    list: async (): Promise<Conversation[]> => {
-      const response = await fetch('/api/conversations', { credentials: 'include' });
+    list: async (cursor?: string | null, view: ConversationView = 'active'): Promise<ConversationPage> => {
+      const params = new URLSearchParams({ view });
+      if (cursor) params.append('before', cursor);
+
+      const response = await fetch(`/api/conversations?${params}`, { credentials: 'include' });
       if (!response.ok) throw new Error('Failed to get conversations');
       return response.json();
     },
@@ -95,18 +286,148 @@ export const api = {
       if (!response.ok) throw new Error('Failed to get messages');
       return response.json();
     },
+
+    update: async (conversationId: string, changes: ConversationChanges): Promise<Conversation> => {
+      const response = await apiRequest('PATCH', `/api/conversations/${conversationId}`, changes);
+      return response.json();
+    },
+
+    delete: async (conversationId: string): Promise<Conversation> => {
+      const response = await apiRequest('DELETE', `/api/conversations/${conversationId}`);
+      return response.json();
+    },
+
+    restore: async (conversationId: string): Promise<Conversation> => {
+      const response = await apiRequest('POST', `/api/conversations/${conversationId}/restore`);
+      return response.json();
+    },
+
+    exportUrl: (conversationId: string, format: ExportFormat) =>
+      `/api/conversations/${conversationId}/export?format=${format}`,
+
+    // Recreate a conversation from a JSON export
+    import: async (file: File): Promise<Conversation> => {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch('/api/conversations/import', {
+        method: 'POST',
+        body: formData,
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || 'Failed to import conversation');
+      }
+      return response.json();
+    },
+
+    // Show the branch containing messageId; returns the new active thread
+    switchBranch: async (conversationId: string, messageId: string): Promise<Message[]> => {
+      const response = await apiRequest('POST', `/api/conversations/${conversationId}/branch`, { messageId });
+      return response.json();
+    },
+  },
+
+  shares: {
+    list: async (conversationId: string): Promise<ShareLink[]> => {
+      const response = await apiRequest('GET', `/api/conversations/${conversationId}/shares`);
+      return response.json();
+    },
+
+    create: async (conversationId: string): Promise<ShareLink> => {
+      const response = await apiRequest('POST', `/api/conversations/${conversationId}/shares`);
+      return response.json();
+    },
+
+    revoke: async (shareId: string): Promise<ShareLink> => {
+      const response = await apiRequest('DELETE', `/api/shares/${shareId}`);
+      return response.json();
+    },
+
+    // Public snapshot behind a share link; works without a session of the owner
+    get: async (token: string): Promise<SharedConversation> => {
+      const response = await fetch(`/api/share/${token}`);
+      if (!response.ok) throw new Error('This link does not exist or was revoked');
+      return response.json();
+    },
+  },
+
+  search: async (query: string, filters: SearchFilters = {}, signal?: AbortSignal): Promise<SearchResponse> => {
+    const params = new URLSearchParams({ q: query });
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) params.append(key, value);
+    });
+
+    const response = await apiRequest('GET', `/api/search?${params}`, undefined, signal);
+    return response.json();
   },
 
   messages: {
-    send: async (
-      content: string,
-      conversationId?: string,
-      requestImage = false
+    send: async (params: SendMessageParams): Promise<SendMessageResponse> => {
+      const response = await apiRequest('POST', '/api/messages', params);
+      return response.json();
+    },
+
+    stream: async (
+      params: SendMessageParams,
+      handlers: StreamMessageHandlers,
+      signal?: AbortSignal
     ): Promise<SendMessageResponse> => {
-      return apiRequest('/api/messages', {
+      const response = await apiRequest('POST', '/api/messages', { ...params, stream: true }, signal);
+      return readReplyStream(response, handlers);
+    },
+
+    // Stream a new version of an assistant reply; the original stays available as a sibling branch
+    regenerate: async (
+      messageId: string,
+      params: RegenerateMessageParams,
+      handlers: StreamMessageHandlers,
+      signal?: AbortSignal
+    ): Promise<SendMessageResponse> => {
+      const response = await apiRequest('POST', `/api/messages/${messageId}/regenerate`, { ...params, stream: true }, signal);
+      return readReplyStream(response, handlers);
+    },
+  },
+
+  attachments: {
+    upload: async (files: File[]): Promise<AttachmentSummary[]> => {
+      const formData = new FormData();
+      files.forEach(file => formData.append('files', file));
+
+      const response = await fetch('/api/attachments', {
         method: 'POST',
-        body: JSON.stringify({ content, conversationId, requestImage }),
+        body: formData,
+        credentials: 'include',
       });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || 'Failed to upload attachments');
+      }
+      return response.json();
+    },
+
+    url: (attachmentId: string) => `/api/attachments/${attachmentId}`,
+  },
+
+  memories: {
+    list: async (): Promise<MemoryBank> => {
+      const response = await apiRequest('GET', '/api/memories');
+      return response.json();
+    },
+
+    create: async (content: string): Promise<Memory> => {
+      const response = await apiRequest('POST', '/api/memories', { content });
+      return response.json();
+    },
+
+    update: async (id: string, content: string): Promise<Memory> => {
+      const response = await apiRequest('PATCH', `/api/memories/${id}`, { content });
+      return response.json();
+    },
+
+    delete: async (id: string): Promise<void> => {
+      await apiRequest('DELETE', `/api/memories/${id}`);
     },
   },
 
@@ -114,21 +435,23 @@ export const api = {
     generate: async (
       text: string,
       conversationId?: string,
-      messageId?: string
+      messageId?: string,
+      options: { personality?: string; voiceId?: string } = {}
     ): Promise<VoiceGenerationResponse> => {
-      return apiRequest('/api/voice/generate', {
-        method: 'POST',
-        body: JSON.stringify({ text, conversationId, messageId }),
-      });
+      const response = await apiRequest('POST', '/api/voice/generate', { text, conversationId, messageId, ...options });
+      return response.json();
+    },
+
+    voices: async (): Promise<VoiceCatalog> => {
+      const response = await apiRequest('GET', '/api/voices');
+      return response.json();
     },
   },
 
   admin: {
     login: async (username: string, password: string) => {
-      return apiRequest('/api/admin/login', {
-        method: 'POST',
-        body: JSON.stringify({ username, password }),
-      });
+      const response = await apiRequest('POST', '/api/admin/login', { username, password });
+      return response.json();
     },
 
     getAudio: async (sessionId?: string, conversationId?: string) => {
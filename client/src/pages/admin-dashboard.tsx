@@ -15,8 +15,10 @@ interface AudioCacheEntry {
   conversationId: string;
   audioUrl: string;
   secureToken: string;
+  storageKey: string | null; // Null for entries recorded before audio files were stored
   text: string;
   duration: number;
+  expiresAt: string | null;
   createdAt: string;
 }
 
@@ -132,8 +134,20 @@ export default function AdminDashboard() {
                                 <span className="text-xs text-muted-foreground">
                                   {format(new Date(audio.createdAt), 'PPp')}
                                 </span>
+                                {audio.expiresAt && new Date(audio.expiresAt) < new Date() && (
+                                  <Badge variant="secondary">Link expired</Badge>
+                                )}
                               </div>
                               <p className="text-sm">{audio.text}</p>
+                              {audio.storageKey && (
+                                <audio
+                                  controls
+                                  preload="none"
+                                  src={`/api/admin/audio/${audio.id}/stream`}
+                                  className="mt-2 h-8 w-full"
+                                  data-testid={`audio-player-${audio.id}`}
+                                />
+                              )}
                             </div>
                             <Button
                               size="icon"
@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { useLocation, useRoute } from 'wouter';
 import ChatInterface from '@/components/ChatInterface';
 import Sidebar from '@/components/Sidebar';
 import InfoSidebar from '@/components/InfoSidebar';
@@ -12,6 +13,14 @@ export default function Home() {
   const [infoSidebarCollapsed, setInfoSidebarCollapsed] = useState(true);
   const [chatSidebarCollapsed, setChatSidebarCollapsed] = useState(true);
   const { data: session, isLoading } = useSession();
+  const [, params] = useRoute('/c/:id');
+  const [, setLocation] = useLocation();
+  const conversationId = params?.id;
+
+  // The open conversation lives in the URL so it can be deep-linked and survives reloads
+  const openConversation = (id?: string) => {
+    setLocation(id ? `/c/${id}` : '/');
+  };
 
   // Calculate sidebar width based on viewport - matches CSS clamp
   const getSidebarWidth = () => {
@@ -86,6 +95,9 @@ export default function Home() {
         isInfoSidebarCollapsed={true}
         isCollapsed={chatSidebarCollapsed}
         onUpgradeClick={() => setUpgradeModalOpen(true)}
+        activeConversationId={conversationId}
+        onSelectConversation={openConversation}
+        onNewChat={() => openConversation()}
       />
       
       <main 
@@ -96,6 +108,8 @@ export default function Home() {
         <ChatInterface 
           remainingMessages={messagesRemaining} 
           maxMessages={messagesLimit} 
+          conversationId={conversationId}
+          onConversationChange={openConversation}
         />
       </main>
 
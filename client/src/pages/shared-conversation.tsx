@@ -0,0 +1,91 @@
+import { useQuery } from '@tanstack/react-query';
+import { Link, useRoute } from 'wouter';
+import { Loader2 } from 'lucide-react';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { api } from '@/lib/api';
+
+// Read-only view of a conversation snapshot published with a share link
+export default function SharedConversation() {
+  const [, params] = useRoute('/s/:token');
+  const token = params?.token ?? '';
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ['share', token],
+    queryFn: () => api.shares.get(token),
+    enabled: !!token,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-black">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (isError || !data) {
+    return (
+      <div className="flex h-screen flex-col items-center justify-center gap-4 bg-black px-4 text-center text-white">
+        <h1 className="text-xl font-semibold">This chat is no longer shared</h1>
+        <p className="text-sm text-gray-400">The link does not exist or was revoked by its owner.</p>
+        <Link href="/">
+          <Button className="bg-[#efbf04] hover:bg-[#d4af37] text-black">Start your own chat</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-black px-4 py-6 text-white">
+      <div className="mx-auto flex w-full max-w-[80ch] flex-col gap-4">
+        <header className="flex items-start justify-between gap-4 border-b border-[#202020] pb-4">
+          <div className="min-w-0">
+            <h1 className="truncate text-xl font-semibold" data-testid="text-shared-title">{data.title || 'Shared chat'}</h1>
+            <p className="text-xs text-gray-400">
+              Shared {new Date(data.sharedAt).toLocaleDateString()} · read-only
+            </p>
+          </div>
+          <Link href="/">
+            <Button size="sm" className="shrink-0 bg-[#efbf04] hover:bg-[#d4af37] text-black">Try AUtism GOLD</Button>
+          </Link>
+        </header>
+
+        {data.messages.map((message, index) => (
+          <div
+            key={index}
+            className={`flex gap-3 ${message.role === 'user' ? 'flex-row-reverse' : 'flex-row'}`}
+            data-testid={`shared-message-${index}`}
+          >
+            <Avatar className="h-8 w-8">
+              <AvatarFallback className={message.role === 'assistant' ? 'bg-primary text-primary-foreground' : 'bg-secondary'}>
+                {message.role === 'assistant' ? 'AI' : 'U'}
+              </AvatarFallback>
+            </Avatar>
+            <div
+              className={`max-w-[80ch] rounded-2xl px-4 py-2 border-2 ${
+                message.role === 'user'
+                  ? 'bg-[#606060] border-[#eaeaea] text-white'
+                  : 'bg-[#000000] border-[#202020] text-white'
+              }`}
+            >
+              <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+              {message.imageUrl && (
+                <img
+                  src={message.imageUrl}
+                  alt={message.content.substring(0, 100)}
+                  className="mt-2 rounded-xl max-w-full max-h-[512px] object-contain"
+                  loading="lazy"
+                />
+              )}
+              <p className="mt-1 text-xs opacity-70">
+                {message.role === 'assistant' && message.personality && <span>{message.personality} · </span>}
+                {new Date(message.createdAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+              </p>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+// Attachment Upload Limits
+// File size, count and type limits per tier
+
+export type AttachmentKind = 'image' | 'document';
+
+export interface AttachmentLimits {
+  maxFileSizeBytes: number;
+  maxFilesPerMessage: number;
+  allowedMimeTypes: string[];
+}
+
+const MB = 1024 * 1024;
+
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+const TEXT_TYPES = ['text/plain'];
+const PDF_TYPES = ['application/pdf'];
+const WORD_TYPES = [
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+];
+
+export function getAttachmentLimits(tier: string): AttachmentLimits {
+  switch (tier) {
+    case "Gold":
+      return { maxFileSizeBytes: 20 * MB, maxFilesPerMessage: 10, allowedMimeTypes: [...IMAGE_TYPES, ...TEXT_TYPES, ...PDF_TYPES, ...WORD_TYPES] };
+    case "Pro":
+      return { maxFileSizeBytes: 15 * MB, maxFilesPerMessage: 6, allowedMimeTypes: [...IMAGE_TYPES, ...TEXT_TYPES, ...PDF_TYPES, ...WORD_TYPES] };
+    case "Electrum":
+      return { maxFileSizeBytes: 10 * MB, maxFilesPerMessage: 4, allowedMimeTypes: [...IMAGE_TYPES, ...TEXT_TYPES, ...PDF_TYPES] };
+    default:
+      // Free Trial: a couple of screenshots or text files
+      return { maxFileSizeBytes: 5 * MB, maxFilesPerMessage: 2, allowedMimeTypes: [...IMAGE_TYPES, ...TEXT_TYPES] };
+  }
+}
+
+export function getAttachmentKind(mimeType: string): AttachmentKind {
+  return mimeType.startsWith('image/') ? 'image' : 'document';
+}
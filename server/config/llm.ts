@@ -0,0 +1,56 @@
+// LLM Provider Configuration
+// Selects the provider and model per request. Most specific wins: personality, then tier, then default.
+//
+//   LLM_PROVIDER=gemini|openai|fake      LLM_MODEL=<model>
+//   LLM_PROVIDER_GOLD=openai             LLM_MODEL_GOLD=llama3.1:70b
+//   LLM_PROVIDER_SAVANTIST=gemini        LLM_MODEL_SAVANTIST=gemini-2.5-pro
+
+import type { AIPersonality } from './webhooks';
+import type { LLMProviderName } from '../services/llm/types';
+
+export interface LLMSelection {
+  provider: LLMProviderName;
+  model: string;
+}
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  gemini: 'gemini-2.0-flash-exp',
+  openai: 'llama3.1',
+  fake: 'fake-1',
+};
+
+// Same slugs as the N8N_* webhook overrides, e.g. 'Level 1 ASD' -> 'LEVEL1_ASD'
+const envSlug = (value: string): string =>
+  value.toUpperCase().replace(/LEVEL\s+(\d)/g, 'LEVEL$1').replace(/[^A-Z0-9]+/g, '_');
+
+function parseProvider(value: string | undefined): LLMProviderName | undefined {
+  if (value === 'gemini' || value === 'openai' || value === 'fake') {
+    return value;
+  }
+  if (value) {
+    console.warn(`[LLM] Ignoring unknown provider "${value}"`);
+  }
+  return undefined;
+}
+
+export function resolveLLMSelection(tier?: string, personality?: AIPersonality): LLMSelection {
+  const scopes = [personality, tier].filter((scope): scope is string => !!scope).map(envSlug);
+
+  let provider = parseProvider(process.env.LLM_PROVIDER) ?? 'gemini';
+  let model = process.env.LLM_MODEL;
+
+  // Apply overrides from least to most specific
+  for (const scope of [...scopes].reverse()) {
+    const scopedProvider = parseProvider(process.env[`LLM_PROVIDER_${scope}`]);
+    const scopedModel = process.env[`LLM_MODEL_${scope}`];
+
+    if (scopedProvider && scopedProvider !== provider) {
+      provider = scopedProvider;
+      model = scopedModel;
+    } else if (scopedModel) {
+      model = scopedModel;
+    }
+  }
+
+  return { provider, model: model || DEFAULT_MODELS[provider] };
+}
@@ -0,0 +1,25 @@
+// AI Personality Configuration
+// System prompts and validation for the selectable AI personalities
+
+import type { AIPersonality } from './webhooks';
+
+export const AI_PERSONALITIES: AIPersonality[] = ['AUtistic AI', 'Level 1 ASD', 'Savantist'];
+
+export const DEFAULT_PERSONALITY: AIPersonality = 'AUtistic AI';
+
+const SYSTEM_PROMPTS: Record<AIPersonality, string> = {
+  'AUtistic AI': 'You are AUtistic AI, specialized in meme coins and creative content. Be casual, fun, and knowledgeable about crypto culture.',
+  'Level 1 ASD': 'You are Level 1 ASD, focused on learning, facts, and solving complex problems. Be analytical and educational.',
+  'Savantist': 'You are Savantist, the expert in advanced trading insights. Provide deep analysis with maximum detail and precision.',
+};
+
+export function isAIPersonality(value: unknown): value is AIPersonality {
+  return typeof value === 'string' && (AI_PERSONALITIES as string[]).includes(value);
+}
+
+// Get system prompt based on personality
+export function getPersonalitySystemPrompt(personality: string): string {
+  return isAIPersonality(personality)
+    ? SYSTEM_PROMPTS[personality]
+    : SYSTEM_PROMPTS[DEFAULT_PERSONALITY];
+}
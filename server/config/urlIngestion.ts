@@ -0,0 +1,48 @@
+// URL Ingestion Configuration
+// Fetch limits and host allow/deny lists for links shared in chat
+
+import net from "net";
+
+const KB = 1024;
+
+export const MAX_URLS_PER_MESSAGE = 3;
+export const URL_FETCH_TIMEOUT_MS = parseInt(process.env.URL_FETCH_TIMEOUT_MS || "8000", 10);
+export const URL_MAX_RESPONSE_BYTES = parseInt(process.env.URL_MAX_RESPONSE_BYTES || String(2048 * KB), 10);
+export const URL_MAX_REDIRECTS = 5;
+export const URL_MAX_LENGTH = 2048;
+
+// Only for local development and tests against fixture servers; never set in production.
+// "true" allows every private address; a comma-separated list allows only those addresses.
+const PRIVATE_ADDRESS_SETTING = process.env.URL_ALLOW_PRIVATE_ADDRESSES || "";
+const ALLOWED_PRIVATE_ADDRESSES = PRIVATE_ADDRESS_SETTING === "true"
+  ? []
+  : PRIVATE_ADDRESS_SETTING.split(",").map(address => address.trim()).filter(Boolean);
+
+export function isPrivateAddressAllowed(address: string): boolean {
+  return PRIVATE_ADDRESS_SETTING === "true" || ALLOWED_PRIVATE_ADDRESSES.includes(address);
+}
+
+// Comma-separated domains or IP addresses; a domain also matches its subdomains
+const parseDomainList = (value?: string): string[] =>
+  (value || "")
+    .split(",")
+    .map(domain => domain.trim().toLowerCase().replace(/^\*?\./, "").replace(/^\[|\]$/g, ""))
+    .filter(Boolean);
+
+const URL_ALLOWLIST = parseDomainList(process.env.URL_ALLOWLIST);
+const URL_DENYLIST = parseDomainList(process.env.URL_DENYLIST);
+
+// IP addresses only match exactly; "1.2.3.4" is not a subdomain of "3.4"
+const matchesDomain = (hostname: string, domain: string): boolean =>
+  hostname === domain || (!net.isIP(hostname) && hostname.endsWith(`.${domain}`));
+
+/**
+ * Deny list wins; an empty allow list allows every other host. Applies to domains and literal IPs alike.
+ */
+export function isDomainAllowed(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, "");
+  if (URL_DENYLIST.some(domain => matchesDomain(host, domain))) {
+    return false;
+  }
+  return URL_ALLOWLIST.length === 0 || URL_ALLOWLIST.some(domain => matchesDomain(host, domain));
+}
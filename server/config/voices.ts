@@ -0,0 +1,38 @@
+// Voice Configuration
+// Default text-to-speech voice for each personality, per provider. Overrides are set per provider,
+// so switching TTS_PROVIDER never sends one provider's voice ID to another:
+//
+//   TTS_PROVIDER=elevenlabs|fake
+//   TTS_VOICE_<PROVIDER>_AUTISTIC_AI=<voice id>   e.g. TTS_VOICE_ELEVENLABS_SAVANTIST
+//   TTS_VOICE_<PROVIDER>_LEVEL1_ASD=<voice id>
+//   TTS_VOICE_<PROVIDER>_SAVANTIST=<voice id>
+
+import type { AIPersonality } from './webhooks';
+import type { TTSProviderName } from '../services/tts/types';
+
+// Longest text spoken in one request, over REST or the voice socket
+export const MAX_VOICE_TEXT_LENGTH = 5000;
+
+const DEFAULT_VOICES: Record<TTSProviderName, Record<AIPersonality, string>> = {
+  elevenlabs: {
+    'AUtistic AI': 'ErXwobaYiN019PkySvjV', // Antoni
+    'Level 1 ASD': '21m00Tcm4TlvDq8ikWAM', // Rachel
+    'Savantist': 'pNInz6obpgDQGcFmaJgB', // Adam
+  },
+  fake: {
+    'AUtistic AI': 'tone-high',
+    'Level 1 ASD': 'tone-mid',
+    'Savantist': 'tone-low',
+  },
+};
+
+const OVERRIDE_KEYS: Record<AIPersonality, string> = {
+  'AUtistic AI': 'AUTISTIC_AI',
+  'Level 1 ASD': 'LEVEL1_ASD',
+  'Savantist': 'SAVANTIST',
+};
+
+export function getPersonalityVoiceId(provider: TTSProviderName, personality: AIPersonality): string {
+  const override = process.env[`TTS_VOICE_${provider.toUpperCase()}_${OVERRIDE_KEYS[personality]}`];
+  return override || DEFAULT_VOICES[provider][personality];
+}
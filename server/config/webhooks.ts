@@ -1,6 +1,8 @@
 // N8N Webhook Configuration for Different AI Personalities
 // Each personality has separate webhooks for TEXT and VOICE modalities
 
+import type { LLMMessage } from '../services/llm/types';
+
 export type AIPersonality = 'AUtistic AI' | 'Level 1 ASD' | 'Savantist';
 export type Modality = 'TEXT' | 'VOICE' | 'IMAGE';
 
@@ -45,6 +47,12 @@ export function getWebhookUrl(personality: AIPersonality, modality: Modality): s
   return WEBHOOK_CONFIG[personality][modality];
 }
 
+// Chat Brain Selection
+// 'n8n' lets the per-personality N8N workflows produce assistant replies, with Gemini as fallback
+export type ChatBrain = 'gemini' | 'n8n';
+
+export const CHAT_BRAIN: ChatBrain = process.env.CHAT_BRAIN === 'n8n' ? 'n8n' : 'gemini';
+
 // Webhook Request Payload Interface
 export interface WebhookPayload {
   personality: AIPersonality;
@@ -53,12 +61,16 @@ export interface WebhookPayload {
   conversationId?: string;
   messageId?: string;
   content: string;
+  // The conversation as the built-in model would get it: trimmed and summarized history, then the
+  // latest turn with its attachments and link excerpts. Sent for chat messages.
+  context?: LLMMessage[];
   metadata?: {
     tier: string;
     tokenBalance: number;
     walletAddress?: string;
     timestamp: number;
     userAgent?: string;
+    memories?: string[]; // Memory Bank entries for the workflow's prompt
   };
 }
 
@@ -0,0 +1,44 @@
+// Local mock of the N8N webhooks for offline development
+// Usage: npm run mock:n8n, then start the app with
+//   CHAT_BRAIN=n8n N8N_BASE_URL=http://localhost:5678/webhook/autism npm run dev
+// Include "#fail" in a message to simulate a workflow error and exercise the Gemini fallback.
+
+import express from "express";
+import type { WebhookPayload, WebhookResponse } from "../config/webhooks";
+
+const port = parseInt(process.env.MOCK_N8N_PORT || "5678", 10);
+const app = express();
+
+app.use(express.json({ limit: "50mb" })); // The context carries attachments inline
+
+app.post("/webhook/autism/:workflow", (req, res) => {
+  const payload = req.body as WebhookPayload;
+  const { workflow } = req.params;
+
+  console.log(`[Mock N8N] ${workflow} <- ${JSON.stringify(payload.content).slice(0, 80)} (${payload.context?.length ?? 0} turns of context)`);
+
+  if (!payload.content || payload.content.includes("#fail")) {
+    const failure: WebhookResponse = { success: false, error: "Mock workflow failure" };
+    return res.status(500).json(failure);
+  }
+
+  const response: WebhookResponse = {
+    success: true,
+    response: `[${payload.personality} via mock n8n] You said: ${payload.content}`,
+    metadata: { workflow, receivedAt: Date.now() },
+  };
+
+  if (payload.modality === "VOICE") {
+    response.audioUrl = `http://localhost:${port}/audio/${encodeURIComponent(workflow)}.mp3`;
+  }
+
+  if (payload.modality === "IMAGE") {
+    response.metadata.imageUrl = `https://placehold.co/512x512?text=${encodeURIComponent(payload.content.slice(0, 40))}`;
+  }
+
+  res.json(response);
+});
+
+app.listen(port, () => {
+  console.log(`[Mock N8N] listening on http://localhost:${port}/webhook/autism`);
+});
@@ -1,9 +1,10 @@
+import type { IncomingMessage } from "http";
 import type { Request, Response, NextFunction } from "express";
 import { storage } from "../storage";
 import { generateFingerprint, generateCookieToken } from "../utils/fingerprint";
 import type { Session } from "@shared/schema";
 
-const COOKIE_NAME = "autism_session";
+export const COOKIE_NAME = "autism_session";
 const COOKIE_MAX_AGE = 180 * 24 * 60 * 60 * 1000; // 180 days in milliseconds
 
 declare global {
@@ -14,58 +15,100 @@ declare global {
   }
 }
 
+interface SessionLookup {
+  session: Session;
+  fromCookie: boolean;
+  cookieExpired: boolean;
+}
+
+// Find the session by cookie token first, then by request fingerprint.
+// Shared by HTTP requests and WebSocket upgrades, which carry the same cookie.
+async function lookupSession(
+  req: IncomingMessage & { ip?: string },
+  cookieToken: string | undefined
+): Promise<SessionLookup | undefined> {
+  if (cookieToken) {
+    const session = await storage.getSessionByCookieToken(cookieToken);
+    if (session) {
+      const cookieExpired = !!session.cookieExpiry && session.cookieExpiry < new Date();
+      return { session, fromCookie: true, cookieExpired };
+    }
+  }
+
+  const session = await storage.getSessionByFingerprint(generateFingerprint(req));
+  return session ? { session, fromCookie: false, cookieExpired: false } : undefined;
+}
+
+// Upgrade requests skip Express, so cookie-parser never sees them
+function parseCookieHeader(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of (header || "").split(";")) {
+    const separator = part.indexOf("=");
+    if (separator === -1) continue;
+    const name = part.slice(0, separator).trim();
+    const value = part.slice(separator + 1).trim();
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      cookies[name] = value;
+    }
+  }
+  return cookies;
+}
+
+/**
+ * Session for a WebSocket upgrade. Upgrades cannot set cookies, so unlike the middleware this
+ * never creates a session or renews an expired cookie; the client has to load the app first.
+ */
+export async function authenticateUpgrade(req: IncomingMessage): Promise<Session | undefined> {
+  const cookieToken = parseCookieHeader(req.headers.cookie)[COOKIE_NAME];
+  const lookup = await lookupSession(req, cookieToken);
+  if (!lookup || lookup.cookieExpired) return undefined;
+  return lookup.session;
+}
+
 export async function sessionMiddleware(req: Request, res: Response, next: NextFunction) {
   try {
     const fingerprint = generateFingerprint(req);
     const cookieToken = req.cookies[COOKIE_NAME];
     
-    let session: Session | undefined;
+    const lookup = await lookupSession(req, cookieToken);
+    let session: Session | undefined = lookup?.session;
 
-    // Try to get session by cookie token first (if exists and valid)
-    if (cookieToken) {
-      session = await storage.getSessionByCookieToken(cookieToken);
+    if (lookup?.fromCookie && lookup.cookieExpired) {
+      // Cookie expired, create new one
+      const newCookieToken = generateCookieToken();
+      const newExpiry = new Date(Date.now() + COOKIE_MAX_AGE);
       
-      // Check if cookie is still valid
-      if (session && session.cookieExpiry && session.cookieExpiry < new Date()) {
-        // Cookie expired, create new one
-        const newCookieToken = generateCookieToken();
-        const newExpiry = new Date(Date.now() + COOKIE_MAX_AGE);
-        
-        session = await storage.updateSession(session.id, {
-          cookieToken: newCookieToken,
-          cookieExpiry: newExpiry,
-        });
-
-        // Set new cookie
-        res.cookie(COOKIE_NAME, newCookieToken, {
-          httpOnly: true,
-          secure: process.env.NODE_ENV === 'production',
-          sameSite: 'lax',
-          maxAge: COOKIE_MAX_AGE,
-        });
-      } else if (session) {
-        // Extend cookie expiry on each request
-        const newExpiry = new Date(Date.now() + COOKIE_MAX_AGE);
-        session = await storage.updateSession(session.id, {
-          cookieExpiry: newExpiry,
-        });
+      session = await storage.updateSession(lookup.session.id, {
+        cookieToken: newCookieToken,
+        cookieExpiry: newExpiry,
+      });
 
-        // Update cookie
-        res.cookie(COOKIE_NAME, cookieToken, {
-          httpOnly: true,
-          secure: process.env.NODE_ENV === 'production',
-          sameSite: 'lax',
-          maxAge: COOKIE_MAX_AGE,
-        });
-      }
-    }
+      // Set new cookie
+      res.cookie(COOKIE_NAME, newCookieToken, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        maxAge: COOKIE_MAX_AGE,
+      });
+    } else if (lookup?.fromCookie) {
+      // Extend cookie expiry on each request
+      const newExpiry = new Date(Date.now() + COOKIE_MAX_AGE);
+      session = await storage.updateSession(lookup.session.id, {
+        cookieExpiry: newExpiry,
+      });
 
-    // If no session from cookie, try fingerprint
-    if (!session) {
-      session = await storage.getSessionByFingerprint(fingerprint);
+      // Update cookie
+      res.cookie(COOKIE_NAME, cookieToken, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        maxAge: COOKIE_MAX_AGE,
+      });
     }
 
-    // If still no session, create a new one
+    // If no session matched the cookie or fingerprint, create a new one
     if (!session) {
       const cookieToken = generateCookieToken();
       const cookieExpiry = new Date(Date.now() + COOKIE_MAX_AGE);
@@ -1,17 +1,445 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import cookieParser from "cookie-parser";
-import { storage } from "./storage";
+import { storage, type ConversationView } from "./storage";
 import { sessionMiddleware } from "./middleware/session";
 import { adminMiddleware } from "./middleware/admin";
-import { checkMessageRateLimit, incrementMessageCount, checkVoiceRateLimit, incrementVoiceMinutes } from "./utils/rateLimit";
+import { checkMessageRateLimit, incrementMessageCount, checkVoiceRateLimit, chargeVoiceSeconds, checkImageRateLimit, incrementImageCount, type RateLimitResult } from "./utils/rateLimit";
 import { getTokenBalance } from "./utils/solana";
-import { generateSecureToken, hashPassword, verifyPassword } from "./utils/fingerprint";
-import { GoogleGenAI } from "@google/genai";
-import axios from "axios";
+import { hashPassword, verifyPassword } from "./utils/fingerprint";
+import { estimateSpeechSeconds, speechBillableSeconds } from "./utils/audioDuration";
+import { findOwnedConversation } from "./utils/ownership";
+import { initEventStream, sendEvent } from "./utils/sse";
+import { contextAssembler } from "./services/contextAssembler";
+import { DEFAULT_PERSONALITY, isAIPersonality } from "./config/personalities";
+import { CHAT_BRAIN, type AIPersonality } from "./config/webhooks";
+import { N8NWebhookService } from "./services/n8nWebhook";
+import { resolveLLM } from "./services/llm";
+import { ImageGenerationService, getImageUrl } from "./services/images";
+import { blobStorage, type ByteRange } from "./services/blobStorage";
+import { AudioStorageService } from "./services/audioStorage";
+import { getTTSProvider, getVoiceCatalog, getVoiceSettings, resolveVoice, type SynthesisResult } from "./services/tts";
+import { MAX_VOICE_TEXT_LENGTH } from "./config/voices";
+import type { Attachment, AudioCache, Conversation, GeneratedImage, Message, Session } from "@shared/schema";
+import { AttachmentService } from "./services/attachments";
+import { getAttachmentLimits, type AttachmentLimits } from "./config/attachments";
+import { UrlIngestionService, readableLinks } from "./services/urlIngestion";
+import { MemoryBankService } from "./services/memoryBank";
+import { MessageTreeService } from "./services/messageTree";
+import { ConversationSummaryService } from "./services/conversationSummary";
+import { SearchService } from "./services/search";
+import { ShareLinkService } from "./services/shareLinks";
+import { ConversationExportService, EXPORT_FORMATS, type ExportFormat } from "./services/conversationExport";
+import { MAX_URLS_PER_MESSAGE, URL_MAX_LENGTH } from "./config/urlIngestion";
+import { registerVoiceSocket } from "./voiceSocket";
+import multer from "multer";
 
-const gemini = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY! });
-const N8N_WEBHOOK_URL = "https://autism.app.n8n.cloud/webhook/autism-ai";
+const CONVERSATION_PAGE_SIZE = 20;
+const CONVERSATION_VIEWS: ConversationView[] = ["active", "archived", "deleted"];
+const MAX_TITLE_LENGTH = 200;
+const SEARCH_PAGE_SIZE = 20;
+const MAX_SEARCH_QUERY_LENGTH = 200;
+
+// History cursors are "<p|u>_<updatedAt>_<id>" for the last pinned or unpinned conversation of a page
+function encodeConversationCursor(conversation: Conversation): string {
+  return `${conversation.pinned ? "p" : "u"}_${conversation.updatedAt.toISOString()}_${conversation.id}`;
+}
+
+function decodeConversationCursor(cursor: string): { pinned: boolean; updatedAt: Date; id: string } | undefined {
+  const match = cursor.match(/^([pu])_([^_]+)_(.+)$/);
+  const updatedAt = match ? new Date(match[2]) : undefined;
+  if (!match || !updatedAt || isNaN(updatedAt.getTime())) return undefined;
+  return { pinned: match[1] === "p", updatedAt, id: match[3] };
+}
+
+// Parse an optional ISO date query parameter; null means it was present but invalid
+function parseDateParam(value: unknown): Date | undefined | null {
+  if (value === undefined || value === "") return undefined;
+  if (typeof value !== "string") return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Uploads are held in memory, so the parser stops at the tier's size and count limits
+// before buffering more; types and contents are validated afterwards, then written to blob storage
+function attachmentUpload(limits: AttachmentLimits) {
+  return multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: limits.maxFileSizeBytes, files: limits.maxFilesPerMessage },
+  });
+}
+
+// Conversation imports are JSON exports, read in memory
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 10 * 1024 * 1024, files: 1 },
+});
+
+// Stream a generated image file with headers that keep SVG placeholders inert
+async function sendGeneratedImage(res: Response, image: GeneratedImage, cacheControl: string) {
+  const fileStream = await blobStorage.createReadStream(image.storageKey);
+  res.setHeader("Content-Type", image.mimeType);
+  res.setHeader("Cache-Control", cacheControl);
+  res.setHeader("X-Content-Type-Options", "nosniff");
+  // SVG placeholders must never run script when opened directly
+  res.setHeader("Content-Security-Policy", "default-src 'none'; style-src 'unsafe-inline'");
+  fileStream.on("error", (error) => {
+    console.error("Error streaming image:", error);
+    res.destroy(error);
+  });
+  fileStream.pipe(res);
+}
+
+// Stream an audio file, honouring single-range requests so players can seek
+async function sendAudio(req: Request, res: Response, audio: AudioCache, storageKey: string, cacheControl: string) {
+  const size = audio.sizeBytes ?? await blobStorage.size(storageKey);
+  res.setHeader("Content-Type", audio.mimeType || "application/octet-stream");
+  res.setHeader("Accept-Ranges", "bytes");
+  res.setHeader("Cache-Control", cacheControl);
+  res.setHeader("X-Content-Type-Options", "nosniff");
+
+  let range: ByteRange | undefined;
+  if (req.headers.range) {
+    const ranges = req.range(size, { combine: true });
+    if (ranges === -1) {
+      res.setHeader("Content-Range", `bytes */${size}`);
+      return res.status(416).end();
+    }
+    // Malformed and multi-range requests get the whole file
+    if (ranges !== -2 && ranges && ranges.type === "bytes" && ranges.length === 1) {
+      range = ranges[0];
+    }
+  }
+
+  if (range) {
+    res.status(206);
+    res.setHeader("Content-Range", `bytes ${range.start}-${range.end}/${size}`);
+    res.setHeader("Content-Length", range.end - range.start + 1);
+  } else {
+    res.setHeader("Content-Length", size);
+  }
+
+  const fileStream = await blobStorage.createReadStream(storageKey, range);
+  fileStream.on("error", (error) => {
+    console.error("Error streaming audio:", error);
+    res.destroy(error);
+  });
+  fileStream.pipe(res);
+}
+
+function requestOrigin(req: Request): string {
+  return `${req.protocol}://${req.get("host")}`;
+}
+
+// File name for a download, from the conversation title
+function exportFileName(conversation: Conversation, extension: string): string {
+  const slug = (conversation.title || "chat")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return `${slug || "chat"}-${conversation.createdAt.toISOString().slice(0, 10)}.${extension}`;
+}
+
+// Image prompts are capped well below the image model's input limit
+const MAX_IMAGE_PROMPT_LENGTH = 1500;
+
+// Generate the image for a requestImage reply; failures leave the reply as text only
+async function generateReplyImage(
+  sessionId: string,
+  conversationId: string,
+  description: string
+): Promise<GeneratedImage | undefined> {
+  try {
+    return await ImageGenerationService.generate({
+      sessionId,
+      conversationId,
+      prompt: description.slice(0, MAX_IMAGE_PROMPT_LENGTH),
+    });
+  } catch (error) {
+    console.error("Image generation error:", error);
+    return undefined;
+  }
+}
+
+
+interface ReplyRequest {
+  session: Session;
+  conversation: Conversation;
+  userMessage: Message; // The user turn being answered
+  personality: AIPersonality;
+  requestImage: boolean;
+  stream: boolean;
+  attachments: Attachment[];
+  urls: string[];
+  rateLimit: RateLimitResult;
+}
+
+// Answer a saved user message, as JSON or server-sent events, and record the reply as its child.
+// Shared by new messages, edits and regenerations.
+async function respondToUserMessage(req: Request, res: Response, reply: ReplyRequest) {
+  const { session, conversation, userMessage, personality, requestImage, stream, attachments, urls, rateLimit } = reply;
+  const content = userMessage.content;
+  const { llm, provider, model } = resolveLLM(session.tier, personality);
+
+  // The conversation so far, trimmed and summarized to fit the model's context
+  const latestParts = [
+    ...(await AttachmentService.toParts(attachments, content)),
+    ...(await UrlIngestionService.toParts(urls, content)),
+  ];
+  const assembleContext = (latestPrompt?: string) => contextAssembler.assemble(conversation.id, {
+    leafMessageId: userMessage.id,
+    latestPrompt,
+    latestParts,
+    llm: { llm, model },
+  });
+
+  // Let the personality's n8n workflow answer first when it is configured as the brain.
+  // It gets the same history, attachments and link excerpts as the built-in model.
+  if (CHAT_BRAIN === "n8n") {
+    const brainContext = await assembleContext();
+    const brainReply = await N8NWebhookService.processChatMessage(
+      personality,
+      requestImage ? "IMAGE" : "TEXT",
+      content,
+      session.id,
+      conversation.id,
+      userMessage.id,
+      {
+        tier: session.tier,
+        tokenBalance: session.tokenBalance,
+        walletAddress: session.walletAddress ?? undefined,
+        timestamp: Date.now(),
+        userAgent: req.get("user-agent"),
+        memories: await MemoryBankService.forPrompt(session),
+      },
+      brainContext.contents
+    );
+
+    if (brainReply.success && brainReply.response) {
+      const imageUrl = typeof brainReply.metadata?.imageUrl === "string" ? brainReply.metadata.imageUrl : undefined;
+      const aiMessage = await storage.createMessage({
+        conversationId: conversation.id,
+        parentMessageId: userMessage.id,
+        role: "assistant",
+        content: brainReply.response,
+        isImage: requestImage && !!imageUrl,
+        imageUrl,
+        audioUrl: brainReply.audioUrl,
+        metadata: { personality, brain: "n8n" },
+      });
+
+      // Images from the workflow count against the same quota as generated ones
+      if (aiMessage.isImage) {
+        await incrementImageCount(session.id);
+      }
+      await incrementMessageCount(session.id);
+      ConversationSummaryService.schedule(conversation.id);
+
+      const result = {
+        conversation,
+        userMessage,
+        aiMessage,
+        rateLimit: {
+          remaining: rateLimit.remaining - 1,
+          limit: rateLimit.limit,
+          resetTime: rateLimit.resetTime,
+        },
+      };
+
+      if (stream) {
+        initEventStream(res);
+        sendEvent(res, "start", { conversation, userMessage });
+        sendEvent(res, "delta", { text: aiMessage.content });
+        sendEvent(res, "done", result);
+        return res.end();
+      }
+      return res.json(result);
+    }
+
+    console.warn(`[N8N] No reply from ${personality} workflow, falling back to the model:`, brainReply.error);
+  }
+
+  const prompt = requestImage
+    ? `Based on this request: "${content}", provide a detailed description that could be used to generate an image. Focus on visual elements, composition, style, and mood.`
+    : content;
+  const context = await assembleContext(prompt);
+  const systemInstruction = await MemoryBankService.buildSystemPrompt(session, personality);
+
+  // Stream the reply as server-sent events when the client asks for it
+  if (stream) {
+    initEventStream(res);
+    sendEvent(res, "start", { conversation, userMessage });
+
+    // Stop generating as soon as the client goes away
+    const abortController = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) {
+        abortController.abort();
+      }
+    });
+
+    let aiResponseText = "";
+    let streamError: unknown;
+
+    try {
+      const responseStream = llm.stream({
+        model,
+        contents: context.contents,
+        systemInstruction,
+        signal: abortController.signal,
+      });
+
+      for await (const text of responseStream) {
+        aiResponseText += text;
+        sendEvent(res, "delta", { text });
+      }
+    } catch (error) {
+      if (!abortController.signal.aborted) {
+        console.error("AI streaming error:", error);
+        streamError = error;
+      }
+    }
+
+    const aborted = abortController.signal.aborted;
+    if (!aiResponseText && !aborted) {
+      aiResponseText = streamError
+        ? "I apologize, but I encountered an error processing your request. Please try again."
+        : "I apologize, but I couldn't generate a response.";
+    }
+
+    // Render the streamed description into an image
+    let image: GeneratedImage | undefined;
+    if (requestImage && !aborted && streamError === undefined) {
+      sendEvent(res, "status", { stage: "generating_image" });
+      image = await generateReplyImage(session.id, conversation.id, aiResponseText);
+    }
+
+    // Persist whatever was generated, including partial replies from dropped clients
+    let aiMessage;
+    if (aiResponseText) {
+      aiMessage = await storage.createMessage({
+        conversationId: conversation.id,
+        parentMessageId: userMessage.id,
+        role: "assistant",
+        content: aiResponseText,
+        isImage: !!image,
+        imageUrl: image && getImageUrl(image.secureToken),
+        metadata: {
+          personality,
+          provider,
+          model,
+          streamed: true,
+          ...(aborted && { aborted: true }),
+          ...(streamError !== undefined && { error: true }),
+        },
+      });
+    }
+
+    if (image && aiMessage) {
+      await storage.updateGeneratedImage(image.id, { messageId: aiMessage.id });
+      await incrementImageCount(session.id);
+    }
+
+    // Count the message exactly once, whether it completed, failed or was cut off
+    await incrementMessageCount(session.id);
+    if (aiMessage && !aborted && streamError === undefined) {
+      ConversationSummaryService.schedule(conversation.id);
+    }
+
+    if (aborted) return;
+
+    sendEvent(res, "done", {
+      conversation,
+      userMessage,
+      aiMessage,
+      rateLimit: {
+        remaining: rateLimit.remaining - 1,
+        limit: rateLimit.limit,
+        resetTime: rateLimit.resetTime,
+      },
+    });
+    return res.end();
+  }
+
+  // Generate AI response
+  try {
+    let aiResponseText: string;
+    let image: GeneratedImage | undefined;
+
+    const result = await llm.generate({
+      model,
+      contents: context.contents,
+      systemInstruction,
+    });
+
+    if (requestImage) {
+      aiResponseText = result.text || "I encountered an issue generating the image description.";
+      if (result.text) {
+        image = await generateReplyImage(session.id, conversation.id, result.text);
+      }
+    } else {
+      aiResponseText = result.text || "I apologize, but I couldn't generate a response.";
+    }
+
+    // Save AI response
+    const aiMessage = await storage.createMessage({
+      conversationId: conversation.id,
+      parentMessageId: userMessage.id,
+      role: "assistant",
+      content: aiResponseText,
+      isImage: !!image,
+      imageUrl: image && getImageUrl(image.secureToken),
+      metadata: { personality, provider, model },
+    });
+
+    if (image) {
+      await storage.updateGeneratedImage(image.id, { messageId: aiMessage.id });
+      await incrementImageCount(session.id);
+    }
+
+    // Only increment message count after successful AI response
+    await incrementMessageCount(session.id);
+    ConversationSummaryService.schedule(conversation.id);
+
+    res.json({
+      conversation,
+      userMessage,
+      aiMessage,
+      rateLimit: {
+        remaining: rateLimit.remaining - 1,
+        limit: rateLimit.limit,
+        resetTime: rateLimit.resetTime,
+      },
+    });
+  } catch (aiError) {
+    console.error("AI generation error:", aiError);
+    
+    // Save error message
+    const errorMessage = await storage.createMessage({
+      conversationId: conversation.id,
+      parentMessageId: userMessage.id,
+      role: "assistant",
+      content: "I apologize, but I encountered an error processing your request. Please try again.",
+      isImage: false,
+      metadata: { personality, error: true },
+    });
+
+    // Still increment even on error to prevent spam
+    await incrementMessageCount(session.id);
+
+    res.json({
+      conversation,
+      userMessage,
+      aiMessage: errorMessage,
+      rateLimit: {
+        remaining: rateLimit.remaining - 1,
+        limit: rateLimit.limit,
+        resetTime: rateLimit.resetTime,
+      },
+    });
+  }
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   app.use(cookieParser());
@@ -101,18 +529,69 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get conversations for current session
+  // Get conversations for current session, most recently active first.
+  // Pages with ?limit= and ?before=<nextCursor from the previous page>.
   app.get("/api/conversations", async (req, res) => {
     try {
       const session = req.session!;
-      const conversations = await storage.getConversationsBySession(session.id);
-      res.json(conversations);
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || CONVERSATION_PAGE_SIZE, 1), 100);
+      const view = (req.query.view as ConversationView | undefined) ?? "active";
+      const before = typeof req.query.before === "string" ? decodeConversationCursor(req.query.before) : undefined;
+
+      if (!CONVERSATION_VIEWS.includes(view)) {
+        return res.status(400).json({ error: "view must be active, archived or deleted" });
+      }
+
+      if (req.query.before && !before) {
+        return res.status(400).json({ error: "Invalid cursor" });
+      }
+
+      // Fetch one extra row to know whether another page exists
+      const page = await storage.getConversationsBySession(session.id, { view, limit: limit + 1, before });
+      const conversations = page.slice(0, limit);
+      const nextCursor = page.length > limit
+        ? encodeConversationCursor(conversations[conversations.length - 1])
+        : null;
+
+      res.json({ conversations, nextCursor });
     } catch (error) {
       console.error("Error getting conversations:", error);
       res.status(500).json({ error: "Failed to get conversations" });
     }
   });
 
+  // Full-text search over conversation titles and messages.
+  // ?q= uses web search syntax ("quoted phrases", -excluded, or); filters: personality, from, to (ISO dates).
+  app.get("/api/search", async (req, res) => {
+    try {
+      const session = req.session!;
+      const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+      const personality = req.query.personality || undefined;
+      const from = parseDateParam(req.query.from);
+      const to = parseDateParam(req.query.to);
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || SEARCH_PAGE_SIZE, 1), 50);
+
+      if (!query) {
+        return res.status(400).json({ error: "Search query is required" });
+      }
+      if (query.length > MAX_SEARCH_QUERY_LENGTH) {
+        return res.status(400).json({ error: `Search query must be at most ${MAX_SEARCH_QUERY_LENGTH} characters` });
+      }
+      if (personality !== undefined && !isAIPersonality(personality)) {
+        return res.status(400).json({ error: "Unknown personality" });
+      }
+      if (from === null || to === null) {
+        return res.status(400).json({ error: "from and to must be ISO dates" });
+      }
+
+      const results = await SearchService.search(session, query, { personality, from, to, limit });
+      res.json({ results });
+    } catch (error) {
+      console.error("Error searching conversations:", error);
+      res.status(500).json({ error: "Failed to search conversations" });
+    }
+  });
+
   // Get messages for a conversation
   app.get("/api/conversations/:id/messages", async (req, res) => {
     try {
@@ -120,29 +599,426 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const session = req.session!;
 
       // Verify conversation belongs to this session
-      const conversation = await storage.getConversation(id);
-      if (!conversation || conversation.sessionId !== session.id) {
+      const conversation = await findOwnedConversation(session, id);
+      if (!conversation) {
         return res.status(404).json({ error: "Conversation not found" });
       }
 
-      const messages = await storage.getMessagesByConversation(id);
-      res.json(messages);
+      // Only the active branch, with sibling IDs for switching between versions
+      res.json(await MessageTreeService.getThread(conversation));
     } catch (error) {
       console.error("Error getting messages:", error);
       res.status(500).json({ error: "Failed to get messages" });
     }
   });
 
+  // Download a conversation as Markdown, JSON (every branch) or a standalone HTML page
+  app.get("/api/conversations/:id/export", async (req, res) => {
+    try {
+      const session = req.session!;
+      const format = (req.query.format as ExportFormat | undefined) ?? "md";
+
+      if (!Object.prototype.hasOwnProperty.call(EXPORT_FORMATS, format)) {
+        return res.status(400).json({ error: "format must be md, json or html" });
+      }
+
+      const conversation = await findOwnedConversation(session, req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+
+      const document = await ConversationExportService.toDocument(conversation, requestOrigin(req));
+      const body = format === "json"
+        ? JSON.stringify(document, null, 2)
+        : format === "html"
+          ? ConversationExportService.toHtml(document)
+          : ConversationExportService.toMarkdown(document);
+
+      const { contentType, extension } = EXPORT_FORMATS[format];
+      res.setHeader("Content-Type", contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${exportFileName(conversation, extension)}"`);
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.send(body);
+    } catch (error) {
+      console.error("Error exporting conversation:", error);
+      res.status(500).json({ error: "Failed to export conversation" });
+    }
+  });
+
+  // Recreate a conversation from a JSON export under the current session
+  app.post(
+    "/api/conversations/import",
+    (req, res, next) => {
+      importUpload.single("file")(req, res, (error) => {
+        if (error instanceof multer.MulterError) {
+          const status = error.code === "LIMIT_FILE_SIZE" ? 413 : 400;
+          return res.status(status).json({ error: error.message });
+        }
+        if (error) return next(error);
+        next();
+      });
+    },
+    async (req, res) => {
+      try {
+        const session = req.session!;
+        if (!req.file) {
+          return res.status(400).json({ error: "No file uploaded" });
+        }
+
+        let data: unknown;
+        try {
+          data = JSON.parse(req.file.buffer.toString("utf-8"));
+        } catch {
+          return res.status(400).json({ error: "The file is not valid JSON" });
+        }
+
+        const parsed = ConversationExportService.parse(data);
+        if ("error" in parsed) {
+          return res.status(400).json({ error: parsed.error });
+        }
+
+        const conversation = await ConversationExportService.import(session, parsed.document);
+        res.status(201).json(conversation);
+      } catch (error) {
+        console.error("Error importing conversation:", error);
+        res.status(500).json({ error: "Failed to import conversation" });
+      }
+    }
+  );
+
+  // Share links of a conversation, newest first, with view counts
+  app.get("/api/conversations/:id/shares", async (req, res) => {
+    try {
+      const session = req.session!;
+      const conversation = await findOwnedConversation(session, req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+
+      const links = await storage.getShareLinksByConversation(conversation.id);
+      res.json(links.map(link => ShareLinkService.toSummary(link, requestOrigin(req))));
+    } catch (error) {
+      console.error("Error getting share links:", error);
+      res.status(500).json({ error: "Failed to get share links" });
+    }
+  });
+
+  // Publish a read-only snapshot of the conversation's current branch
+  app.post("/api/conversations/:id/shares", async (req, res) => {
+    try {
+      const session = req.session!;
+      const conversation = await findOwnedConversation(session, req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+
+      const link = await ShareLinkService.create(session, conversation);
+      res.status(201).json(ShareLinkService.toSummary(link, requestOrigin(req)));
+    } catch (error) {
+      console.error("Error creating share link:", error);
+      res.status(500).json({ error: "Failed to create share link" });
+    }
+  });
+
+  // Revoke a share link; its URL stops working immediately
+  app.delete("/api/shares/:id", async (req, res) => {
+    try {
+      const session = req.session!;
+      const link = await storage.getShareLink(req.params.id);
+      const conversation = link && await findOwnedConversation(session, link.conversationId, { includeDeleted: true });
+      if (!link || !conversation) {
+        return res.status(404).json({ error: "Share link not found" });
+      }
+
+      const revoked = await storage.revokeShareLink(link.id);
+      res.json(ShareLinkService.toSummary(revoked ?? link, requestOrigin(req)));
+    } catch (error) {
+      console.error("Error revoking share link:", error);
+      res.status(500).json({ error: "Failed to revoke share link" });
+    }
+  });
+
+  // Public: the shared snapshot, counted as a view
+  app.get("/api/share/:token", async (req, res) => {
+    try {
+      const link = await ShareLinkService.findActive(req.params.token);
+      if (!link) {
+        return res.status(404).json({ error: "This link does not exist or was revoked" });
+      }
+
+      await storage.recordShareLinkView(link.id);
+      res.setHeader("Cache-Control", "no-store");
+      res.json({ ...ShareLinkService.toPublicSnapshot(link), sharedAt: link.createdAt });
+    } catch (error) {
+      console.error("Error getting shared conversation:", error);
+      res.status(500).json({ error: "Failed to get shared conversation" });
+    }
+  });
+
+  // Public: generated images that appear in a shared snapshot
+  app.get("/api/share/:token/images/:secureToken", async (req, res) => {
+    try {
+      const link = await ShareLinkService.findActive(req.params.token);
+      const image = link && ShareLinkService.includesImage(link, req.params.secureToken)
+        ? await storage.getGeneratedImageByToken(req.params.secureToken)
+        : undefined;
+
+      if (!image) {
+        return res.status(404).json({ error: "Image not found" });
+      }
+
+      // Short public caching, so a revoked link stops serving images soon after
+      await sendGeneratedImage(res, image, "public, max-age=300");
+    } catch (error) {
+      console.error("Error getting shared image:", error);
+      res.status(500).json({ error: "Failed to get image" });
+    }
+  });
+
+  // Shared conversation page: the client renders it; the server adds link preview tags
+  app.get("/s/:token", async (req, res, next) => {
+    try {
+      const link = await ShareLinkService.findActive(req.params.token);
+      if (link) {
+        res.locals.pageMeta = ShareLinkService.getPageMeta(link, requestOrigin(req));
+      }
+    } catch (error) {
+      console.error("Error getting share link preview:", error);
+    }
+    next();
+  });
+
+  // Rename, pin or archive a conversation
+  app.patch("/api/conversations/:id", async (req, res) => {
+    try {
+      const session = req.session!;
+      const { title, pinned, archived } = req.body;
+
+      if (title !== undefined && (typeof title !== "string" || !title.trim())) {
+        return res.status(400).json({ error: "Title must be a non-empty string" });
+      }
+      if (pinned !== undefined && typeof pinned !== "boolean") {
+        return res.status(400).json({ error: "pinned must be a boolean" });
+      }
+      if (archived !== undefined && typeof archived !== "boolean") {
+        return res.status(400).json({ error: "archived must be a boolean" });
+      }
+
+      let conversation = await findOwnedConversation(session, req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+
+      if (title !== undefined) {
+        conversation = await storage.renameConversation(conversation.id, title.trim().slice(0, MAX_TITLE_LENGTH)) ?? conversation;
+      }
+      if (pinned !== undefined) {
+        conversation = await storage.setConversationPinned(conversation.id, pinned) ?? conversation;
+      }
+      if (archived !== undefined) {
+        conversation = await storage.setConversationArchived(conversation.id, archived) ?? conversation;
+      }
+
+      res.json(conversation);
+    } catch (error) {
+      console.error("Error updating conversation:", error);
+      res.status(500).json({ error: "Failed to update conversation" });
+    }
+  });
+
+  // Move a conversation to the trash; it can be restored
+  app.delete("/api/conversations/:id", async (req, res) => {
+    try {
+      const session = req.session!;
+
+      const conversation = await findOwnedConversation(session, req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+
+      res.json(await storage.softDeleteConversation(conversation.id));
+    } catch (error) {
+      console.error("Error deleting conversation:", error);
+      res.status(500).json({ error: "Failed to delete conversation" });
+    }
+  });
+
+  // Bring a conversation back from the trash
+  app.post("/api/conversations/:id/restore", async (req, res) => {
+    try {
+      const session = req.session!;
+
+      const conversation = await findOwnedConversation(session, req.params.id, { includeDeleted: true });
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+
+      res.json(await storage.restoreConversation(conversation.id));
+    } catch (error) {
+      console.error("Error restoring conversation:", error);
+      res.status(500).json({ error: "Failed to restore conversation" });
+    }
+  });
+
+  // Show another version of a message (and the newest replies under it)
+  app.post("/api/conversations/:id/branch", async (req, res) => {
+    try {
+      const session = req.session!;
+      const { messageId } = req.body;
+
+      if (typeof messageId !== "string") {
+        return res.status(400).json({ error: "messageId is required" });
+      }
+
+      const conversation = await findOwnedConversation(session, req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+
+      const thread = await MessageTreeService.switchBranch(conversation, messageId);
+      if (!thread) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+
+      res.json(thread);
+    } catch (error) {
+      console.error("Error switching branch:", error);
+      res.status(500).json({ error: "Failed to switch branch" });
+    }
+  });
+
+  // List the Memory Bank with its size against the tier cap
+  app.get("/api/memories", async (req, res) => {
+    try {
+      const session = req.session!;
+      const memories = await MemoryBankService.list(session);
+      res.json({ memories, usage: MemoryBankService.getUsage(session, memories) });
+    } catch (error) {
+      console.error("Error getting memories:", error);
+      res.status(500).json({ error: "Failed to get memories" });
+    }
+  });
+
+  // Add a memory
+  app.post("/api/memories", async (req, res) => {
+    try {
+      const session = req.session!;
+      const content = typeof req.body.content === "string" ? req.body.content.trim() : "";
+
+      if (!content) {
+        return res.status(400).json({ error: "Memory content is required" });
+      }
+
+      const capacityError = await MemoryBankService.checkCapacity(session, content);
+      if (capacityError) {
+        return res.status(400).json({ error: capacityError });
+      }
+
+      const memory = await storage.createMemory({
+        sessionId: session.id,
+        content,
+      });
+      res.status(201).json(memory);
+    } catch (error) {
+      console.error("Error creating memory:", error);
+      res.status(500).json({ error: "Failed to save memory" });
+    }
+  });
+
+  // Edit a memory
+  app.patch("/api/memories/:id", async (req, res) => {
+    try {
+      const session = req.session!;
+      const content = typeof req.body.content === "string" ? req.body.content.trim() : "";
+
+      if (!content) {
+        return res.status(400).json({ error: "Memory content is required" });
+      }
+
+      const memory = await MemoryBankService.find(session, req.params.id);
+      if (!memory) {
+        return res.status(404).json({ error: "Memory not found" });
+      }
+
+      const capacityError = await MemoryBankService.checkCapacity(session, content, memory.id);
+      if (capacityError) {
+        return res.status(400).json({ error: capacityError });
+      }
+
+      const updated = await storage.updateMemory(memory.id, { content });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating memory:", error);
+      res.status(500).json({ error: "Failed to update memory" });
+    }
+  });
+
+  // Forget a memory
+  app.delete("/api/memories/:id", async (req, res) => {
+    try {
+      const session = req.session!;
+
+      const memory = await MemoryBankService.find(session, req.params.id);
+      if (!memory) {
+        return res.status(404).json({ error: "Memory not found" });
+      }
+
+      await storage.deleteMemory(memory.id);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting memory:", error);
+      res.status(500).json({ error: "Failed to delete memory" });
+    }
+  });
+
   // Send a message
   app.post("/api/messages", async (req, res) => {
     try {
-      const { content, conversationId, requestImage = false } = req.body;
+      const {
+        content,
+        conversationId,
+        requestImage = false,
+        stream = false,
+        personality = DEFAULT_PERSONALITY,
+        attachmentIds = [],
+        urls = [],
+        editOf,
+      } = req.body;
       const session = req.session!;
 
       if (!content) {
         return res.status(400).json({ error: "Message content is required" });
       }
 
+      if (!isAIPersonality(personality)) {
+        return res.status(400).json({ error: "Unknown personality" });
+      }
+
+      if (editOf !== undefined && (typeof editOf !== "string" || !conversationId)) {
+        return res.status(400).json({ error: "editOf must be the ID of a message in the conversation" });
+      }
+
+      if (!Array.isArray(attachmentIds) || !attachmentIds.every((id) => typeof id === "string")) {
+        return res.status(400).json({ error: "attachmentIds must be an array of attachment IDs" });
+      }
+
+      if (!Array.isArray(urls) || !urls.every((url) => typeof url === "string" && url.length <= URL_MAX_LENGTH)) {
+        return res.status(400).json({ error: "urls must be an array of links" });
+      }
+
+      if (urls.length > MAX_URLS_PER_MESSAGE) {
+        return res.status(400).json({ error: `Up to ${MAX_URLS_PER_MESSAGE} links can be read per message` });
+      }
+
+      if (attachmentIds.length > getAttachmentLimits(session.tier).maxFilesPerMessage) {
+        return res.status(400).json({ error: "Too many attachments for your tier" });
+      }
+
+      const messageAttachments = await AttachmentService.claim(session, attachmentIds);
+      if (!messageAttachments) {
+        return res.status(400).json({ error: "Invalid attachments" });
+      }
+
       // Check rate limit
       const rateLimit = await checkMessageRateLimit(session);
       if (!rateLimit.allowed) {
@@ -152,11 +1028,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      // Image requests also draw from the tier's image quota
+      if (requestImage) {
+        const imageLimit = await checkImageRateLimit(session);
+        if (!imageLimit.allowed) {
+          return res.status(429).json({
+            error: "Image limit exceeded",
+            resetTime: imageLimit.resetTime,
+          });
+        }
+      }
+
       // Get or create conversation
       let conversation;
       if (conversationId) {
-        conversation = await storage.getConversation(conversationId);
-        if (!conversation || conversation.sessionId !== session.id) {
+        conversation = await findOwnedConversation(session, conversationId);
+        if (!conversation) {
           return res.status(404).json({ error: "Conversation not found" });
         }
       } else {
@@ -166,130 +1053,296 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      // A new message continues the active branch; an edit starts a sibling branch beside the original
+      let parentMessageId: string | null = null;
+      if (conversationId) {
+        parentMessageId = await MessageTreeService.getActiveLeafId(conversation);
+      }
+      if (editOf) {
+        const edited = await storage.getMessage(editOf);
+        if (!edited || edited.conversationId !== conversation.id || edited.role !== "user") {
+          return res.status(400).json({ error: "Only your own messages in this conversation can be edited" });
+        }
+        parentMessageId = edited.parentMessageId;
+      }
+
       // Save user message
       const userMessage = await storage.createMessage({
         conversationId: conversation.id,
+        parentMessageId,
         role: "user",
         content,
         isImage: false,
+        metadata: {
+          personality,
+          ...(messageAttachments.length > 0 && {
+            attachments: messageAttachments.map(AttachmentService.toSummary),
+          }),
+          ...(urls.length > 0 && { links: urls }),
+        },
       });
+      await AttachmentService.linkToMessage(messageAttachments, conversation.id, userMessage.id);
 
-      // Call n8n webhook (don't increment until we successfully generate a response)
-      try {
-        await axios.post(N8N_WEBHOOK_URL, {
-          sessionId: session.id,
-          conversationId: conversation.id,
-          messageId: userMessage.id,
-          content,
-          tier: session.tier,
-          requestImage,
-        });
-        
-        await storage.createWebhookLog({
-          sessionId: session.id,
-          conversationId: conversation.id,
-          requestData: { content, requestImage },
-          responseData: { status: "sent" },
-          status: "success",
-        });
-      } catch (webhookError) {
-        console.error("Webhook error:", webhookError);
-        await storage.createWebhookLog({
-          sessionId: session.id,
-          conversationId: conversation.id,
-          requestData: { content, requestImage },
-          responseData: { error: String(webhookError) },
-          status: "error",
+      await respondToUserMessage(req, res, {
+        session,
+        conversation,
+        userMessage,
+        personality,
+        requestImage,
+        stream,
+        attachments: messageAttachments,
+        urls,
+        rateLimit,
+      });
+    } catch (error) {
+      console.error("Error sending message:", error);
+      if (res.headersSent) {
+        sendEvent(res, "error", { error: "Failed to send message" });
+        return res.end();
+      }
+      res.status(500).json({ error: "Failed to send message" });
+    }
+  });
+
+  // Generate another reply to the same user message as a sibling of an assistant message
+  app.post("/api/messages/:id/regenerate", async (req, res) => {
+    try {
+      const session = req.session!;
+      const { stream = false } = req.body;
+
+      const found = await storage.getMessage(req.params.id);
+      const conversation = found && await findOwnedConversation(session, found.conversationId);
+      if (!found || !conversation) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+
+      // Link threads from before branching existed, then re-read the parent link
+      await MessageTreeService.getActiveLeafId(conversation);
+      const original = await storage.getMessage(found.id);
+      if (!original || original.role !== "assistant" || !original.parentMessageId) {
+        return res.status(400).json({ error: "This reply cannot be regenerated" });
+      }
+
+      const userMessage = await storage.getMessage(original.parentMessageId);
+      if (!userMessage || userMessage.role !== "user") {
+        return res.status(400).json({ error: "This reply cannot be regenerated" });
+      }
+
+      const userMetadata = (userMessage.metadata ?? {}) as { personality?: string; links?: string[] };
+      const personality = req.body.personality ?? userMetadata.personality ?? DEFAULT_PERSONALITY;
+      if (!isAIPersonality(personality)) {
+        return res.status(400).json({ error: "Unknown personality" });
+      }
+
+      // A regenerated reply costs a message like any other
+      const rateLimit = await checkMessageRateLimit(session);
+      if (!rateLimit.allowed) {
+        return res.status(429).json({
+          error: "Rate limit exceeded",
+          resetTime: rateLimit.resetTime,
         });
       }
 
-      // Generate AI response using Gemini
-      try {
-        let aiResponseText: string;
-        let imageUrl: string | undefined;
-
-        if (requestImage) {
-          // For image requests, generate a descriptive response
-          const prompt = `Based on this request: "${content}", provide a detailed description that could be used to generate an image. Focus on visual elements, composition, style, and mood.`;
-          const result = await gemini.models.generateContent({
-            model: 'gemini-2.0-flash-exp',
-            contents: prompt,
-          });
-          aiResponseText = result.text || "I encountered an issue generating the image description.";
-          // Note: Actual image generation would require additional API integration (DALL-E, Stable Diffusion, etc.)
-        } else {
-          const result = await gemini.models.generateContent({
-            model: 'gemini-2.0-flash-exp',
-            contents: content,
+      const requestImage = original.isImage;
+      if (requestImage) {
+        const imageLimit = await checkImageRateLimit(session);
+        if (!imageLimit.allowed) {
+          return res.status(429).json({
+            error: "Image limit exceeded",
+            resetTime: imageLimit.resetTime,
           });
-          aiResponseText = result.text || "I apologize, but I couldn't generate a response.";
         }
+      }
 
-        // Save AI response
-        const aiMessage = await storage.createMessage({
-          conversationId: conversation.id,
-          role: "assistant",
-          content: aiResponseText,
-          isImage: requestImage,
-          imageUrl,
-        });
+      await respondToUserMessage(req, res, {
+        session,
+        conversation,
+        userMessage,
+        personality,
+        requestImage,
+        stream,
+        attachments: await storage.getAttachmentsByMessage(userMessage.id),
+        urls: readableLinks(userMetadata.links ?? []),
+        rateLimit,
+      });
+    } catch (error) {
+      console.error("Error regenerating message:", error);
+      if (res.headersSent) {
+        sendEvent(res, "error", { error: "Failed to regenerate message" });
+        return res.end();
+      }
+      res.status(500).json({ error: "Failed to regenerate message" });
+    }
+  });
 
-        // Only increment message count after successful AI response
-        await incrementMessageCount(session.id);
-
-        res.json({
-          conversation,
-          userMessage,
-          aiMessage,
-          rateLimit: {
-            remaining: rateLimit.remaining - 1,
-            limit: rateLimit.limit,
-            resetTime: rateLimit.resetTime,
-          },
-        });
-      } catch (aiError) {
-        console.error("AI generation error:", aiError);
-        
-        // Save error message
-        const errorMessage = await storage.createMessage({
-          conversationId: conversation.id,
-          role: "assistant",
-          content: "I apologize, but I encountered an error processing your request. Please try again.",
-          isImage: false,
-        });
+  // Upload attachments to send with the next message
+  app.post(
+    "/api/attachments",
+    (req, res, next) => {
+      const limits = getAttachmentLimits(req.session!.tier);
+      attachmentUpload(limits).array("files")(req, res, (error) => {
+        if (error instanceof multer.MulterError) {
+          if (error.code === "LIMIT_FILE_SIZE") {
+            return res.status(413).json({ error: `Files can be up to ${Math.round(limits.maxFileSizeBytes / (1024 * 1024))}MB on your tier` });
+          }
+          if (error.code === "LIMIT_FILE_COUNT") {
+            return res.status(400).json({ error: `Your tier allows up to ${limits.maxFilesPerMessage} files per message` });
+          }
+          return res.status(400).json({ error: error.message });
+        }
+        if (error) return next(error);
+        next();
+      });
+    },
+    async (req, res) => {
+      try {
+        const session = req.session!;
+        const files = (req.files as Express.Multer.File[] | undefined) || [];
 
-        // Still increment even on error to prevent spam
-        await incrementMessageCount(session.id);
-
-        res.json({
-          conversation,
-          userMessage,
-          aiMessage: errorMessage,
-          rateLimit: {
-            remaining: rateLimit.remaining - 1,
-            limit: rateLimit.limit,
-            resetTime: rateLimit.resetTime,
-          },
-        });
+        if (files.length === 0) {
+          return res.status(400).json({ error: "No files uploaded" });
+        }
+
+        const validationError = AttachmentService.validate(session.tier, files);
+        if (validationError) {
+          return res.status(400).json({ error: validationError });
+        }
+
+        const stored = [];
+        for (const file of files) {
+          const attachment = await AttachmentService.store(session, file);
+          AttachmentService.prepare(attachment);
+          stored.push(attachment);
+        }
+
+        res.json(stored.map(AttachmentService.toSummary));
+      } catch (error) {
+        console.error("Error uploading attachments:", error);
+        res.status(500).json({ error: "Failed to upload attachments" });
       }
+    }
+  );
+
+  // Serve an attachment to the session that uploaded it
+  app.get("/api/attachments/:id", async (req, res) => {
+    try {
+      const session = req.session!;
+      const attachment = await storage.getAttachment(req.params.id);
+
+      if (!attachment || attachment.sessionId !== session.id) {
+        return res.status(404).json({ error: "Attachment not found" });
+      }
+
+      const fileStream = await blobStorage.createReadStream(attachment.storageKey);
+      res.setHeader("Content-Type", attachment.mimeType);
+      res.setHeader("Content-Disposition", `inline; filename="${encodeURIComponent(attachment.fileName)}"`);
+      res.setHeader("Cache-Control", "private, max-age=86400");
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader("Content-Security-Policy", "default-src 'none'; style-src 'unsafe-inline'");
+      fileStream.on("error", (error) => {
+        console.error("Error streaming attachment:", error);
+        res.destroy(error);
+      });
+      fileStream.pipe(res);
     } catch (error) {
-      console.error("Error sending message:", error);
-      res.status(500).json({ error: "Failed to send message" });
+      console.error("Error getting attachment:", error);
+      res.status(500).json({ error: "Failed to get attachment" });
+    }
+  });
+
+  // Serve a generated image to the session that owns it
+  app.get("/api/images/:secureToken", async (req, res) => {
+    try {
+      const session = req.session!;
+      const image = await storage.getGeneratedImageByToken(req.params.secureToken);
+
+      if (!image || image.sessionId !== session.id) {
+        return res.status(404).json({ error: "Image not found" });
+      }
+
+      await sendGeneratedImage(res, image, "private, max-age=86400");
+    } catch (error) {
+      console.error("Error getting image:", error);
+      res.status(500).json({ error: "Failed to get image" });
+    }
+  });
+
+  // Serve stored audio to its session until the token expires
+  app.get("/api/audio/:secureToken", async (req, res) => {
+    try {
+      const session = req.session!;
+      const audio = await storage.getAudioCacheByToken(req.params.secureToken);
+
+      if (!audio || audio.sessionId !== session.id || !audio.storageKey) {
+        return res.status(404).json({ error: "Audio not found" });
+      }
+      if (AudioStorageService.isExpired(audio)) {
+        return res.status(410).json({ error: "Audio link has expired" });
+      }
+
+      await sendAudio(req, res, audio, audio.storageKey, "private, max-age=3600");
+    } catch (error) {
+      console.error("Error getting audio:", error);
+      res.status(500).json({ error: "Failed to get audio" });
     }
   });
 
-  // Generate voice with ElevenLabs
+  // Voices of the configured TTS provider, each personality's default and whether the tier may choose
+  app.get("/api/voices", (req, res) => {
+    try {
+      res.json(getVoiceCatalog(req.session!.tier));
+    } catch (error) {
+      console.error("Error getting voices:", error);
+      res.status(500).json({ error: "Failed to get voices" });
+    }
+  });
+
+  // Speak text in the persona's voice with the configured TTS provider
   app.post("/api/voice/generate", async (req, res) => {
     try {
       const { text, conversationId, messageId } = req.body;
       const session = req.session!;
+      const personality = req.body.personality ?? DEFAULT_PERSONALITY;
 
-      if (!text) {
+      if (typeof text !== "string" || !text.trim()) {
         return res.status(400).json({ error: "Text is required" });
       }
+      if (text.length > MAX_VOICE_TEXT_LENGTH) {
+        return res.status(400).json({ error: `Text must be at most ${MAX_VOICE_TEXT_LENGTH} characters` });
+      }
+
+      const conversation = typeof conversationId === "string"
+        ? await findOwnedConversation(session, conversationId)
+        : undefined;
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
 
-      // Check voice rate limit (estimate 1 minute per request)
-      const voiceLimit = await checkVoiceRateLimit(session, 1);
+      // Audio can only be attached to a message of the same conversation
+      if (messageId !== undefined && messageId !== null) {
+        const message = typeof messageId === "string" ? await storage.getMessage(messageId) : undefined;
+        if (!message || message.conversationId !== conversation.id) {
+          return res.status(404).json({ error: "Message not found" });
+        }
+      }
+
+      if (!isAIPersonality(personality)) {
+        return res.status(400).json({ error: "Unknown personality" });
+      }
+
+      const voice = resolveVoice(session.tier, personality, req.body.voiceId);
+      if ("error" in voice) {
+        return res.status(voice.status).json({ error: voice.error });
+      }
+
+      const tts = getTTSProvider();
+      if (!tts.isConfigured()) {
+        return res.status(503).json({ error: "Voice generation is not configured" });
+      }
+
+      // Check voice rate limit against an estimate; the real duration is charged below
+      const estimatedSeconds = Math.ceil(estimateSpeechSeconds(text));
+      const voiceLimit = await checkVoiceRateLimit(session, estimatedSeconds);
       if (!voiceLimit.allowed) {
         return res.status(429).json({ 
           error: "Voice limit exceeded", 
@@ -297,71 +1350,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Generate secure token for audio access
-      const secureToken = generateSecureToken();
-
-      // Integrate with ElevenLabs API
-      let audioUrl = `https://example.com/audio/${secureToken}.mp3`;
-      let duration = 60;
-
-      if (process.env.ELEVENLABS_API_KEY) {
-        try {
-          const elevenLabsResponse = await axios.post(
-            'https://api.elevenlabs.io/v1/text-to-speech/21m00Tcm4TlvDq8ikWAM', // Default voice ID
-            {
-              text,
-              model_id: 'eleven_monolingual_v1',
-              voice_settings: {
-                stability: 0.5,
-                similarity_boost: 0.5,
-              },
-            },
-            {
-              headers: {
-                'Accept': 'audio/mpeg',
-                'xi-api-key': process.env.ELEVENLABS_API_KEY,
-                'Content-Type': 'application/json',
-              },
-              responseType: 'arraybuffer',
-            }
-          );
-
-          // In production, you'd save this to cloud storage (S3, etc.)
-          // For now, we're using a placeholder URL
-          audioUrl = `https://example.com/audio/${secureToken}.mp3`;
-          
-          // Estimate duration (rough estimate: 150 words per minute)
-          const wordCount = text.split(' ').length;
-          duration = Math.ceil((wordCount / 150) * 60);
-        } catch (elevenLabsError) {
-          console.error("ElevenLabs API error:", elevenLabsError);
-          // Continue with mock data if ElevenLabs fails
-        }
+      let speech: SynthesisResult;
+      try {
+        speech = await tts.synthesize({ text, voiceId: voice.voiceId });
+      } catch (ttsError) {
+        console.error("TTS provider error:", ttsError);
+        return res.status(502).json({ error: "Voice provider is unavailable" });
       }
 
-      // Save to audio cache
-      const audioCache = await storage.createAudioCache({
+      const duration = speechBillableSeconds(speech.data, speech.mimeType, text);
+
+      // Store the file and record it in the audio cache
+      const audioCache = await AudioStorageService.save({
         sessionId: session.id,
-        conversationId,
+        conversationId: conversation.id,
         messageId: messageId || null,
-        audioUrl,
-        secureToken,
         text,
+        data: speech.data,
+        mimeType: speech.mimeType,
         duration,
-        voiceSettings: { voice: "default" },
+        voiceSettings: getVoiceSettings(voice.voiceId, tts),
       });
 
-      // Increment voice usage
-      await incrementVoiceMinutes(session.id, 1);
+      // Charge the measured duration
+      await chargeVoiceSeconds(session.id, duration);
+      const updatedVoiceLimit = await checkVoiceRateLimit(session, 0);
 
       res.json({
-        audioUrl,
-        secureToken,
+        audioUrl: audioCache.audioUrl,
+        secureToken: audioCache.secureToken,
         duration: audioCache.duration,
+        expiresAt: audioCache.expiresAt,
         voiceLimit: {
-          remaining: voiceLimit.remaining - 1,
-          limit: voiceLimit.limit,
-          resetTime: voiceLimit.resetTime,
+          remaining: updatedVoiceLimit.remaining,
+          limit: updatedVoiceLimit.limit,
+          resetTime: updatedVoiceLimit.resetTime,
         },
       });
     } catch (error) {
@@ -435,6 +1458,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Replay any stored audio, expired or not (admin only)
+  app.get("/api/admin/audio/:id/stream", async (req, res) => {
+    try {
+      const audio = await storage.getAudioCache(req.params.id);
+      if (!audio || !audio.storageKey) {
+        return res.status(404).json({ error: "Audio not found" });
+      }
+
+      await sendAudio(req, res, audio, audio.storageKey, "private, no-store");
+    } catch (error) {
+      console.error("Error replaying audio:", error);
+      res.status(500).json({ error: "Failed to stream audio" });
+    }
+  });
+
   // Get webhook logs (admin only)
   app.get("/api/admin/webhooks", async (req, res) => {
     try {
@@ -448,5 +1486,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   const httpServer = createServer(app);
+  registerVoiceSocket(httpServer);
   return httpServer;
 }
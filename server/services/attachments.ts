@@ -0,0 +1,169 @@
+// Attachment Service
+// Validates and stores uploaded files and turns them into multimodal model parts
+
+import { randomUUID } from 'crypto';
+import { storage } from '../storage';
+import { blobStorage } from './blobStorage';
+import { getAttachmentKind, getAttachmentLimits } from '../config/attachments';
+import { DocumentExtractionService, isExtractable, selectRelevantChunks } from './documentExtraction';
+import type { LLMPart } from './llm';
+import type { Attachment, Session } from '@shared/schema';
+
+export interface UploadedFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+// Public shape stored on message metadata and returned to clients
+export interface AttachmentSummary {
+  id: string;
+  kind: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+}
+
+// Leading bytes for binary formats, so a renamed file cannot pose as an image or PDF
+const FILE_SIGNATURES: Record<string, (data: Buffer) => boolean> = {
+  'image/png': data => data.subarray(0, 4).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47])),
+  'image/jpeg': data => data.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])),
+  'image/gif': data => data.subarray(0, 4).toString('ascii') === 'GIF8',
+  'image/webp': data => data.subarray(0, 4).toString('ascii') === 'RIFF' && data.subarray(8, 12).toString('ascii') === 'WEBP',
+  'application/pdf': data => data.subarray(0, 5).toString('ascii') === '%PDF-',
+};
+
+// Images the model accepts directly as inline data
+const INLINE_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+
+// Excerpt budget shared by all documents attached to one message
+const DOCUMENT_TOKEN_BUDGET = 6000;
+
+export class AttachmentService {
+  /**
+   * Check a batch of uploads against the tier's limits, returning an error message if any file is rejected
+   */
+  static validate(tier: string, files: UploadedFile[]): string | undefined {
+    const limits = getAttachmentLimits(tier);
+
+    if (files.length > limits.maxFilesPerMessage) {
+      return `Your tier allows up to ${limits.maxFilesPerMessage} files per message`;
+    }
+
+    for (const file of files) {
+      if (!limits.allowedMimeTypes.includes(file.mimetype)) {
+        return `${file.originalname}: file type not allowed on your tier`;
+      }
+      if (file.size > limits.maxFileSizeBytes) {
+        return `${file.originalname}: exceeds the ${Math.round(limits.maxFileSizeBytes / (1024 * 1024))}MB limit for your tier`;
+      }
+      const matchesSignature = FILE_SIGNATURES[file.mimetype];
+      if (matchesSignature && !matchesSignature(file.buffer)) {
+        return `${file.originalname}: file contents do not match its type`;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Persist an uploaded file for the session
+   */
+  static async store(session: Session, file: UploadedFile): Promise<Attachment> {
+    const storageKey = `attachments/${session.id}/${randomUUID()}`;
+    await blobStorage.put(storageKey, file.buffer, file.mimetype);
+
+    return storage.createAttachment({
+      sessionId: session.id,
+      kind: getAttachmentKind(file.mimetype),
+      fileName: file.originalname.slice(0, 255),
+      mimeType: file.mimetype,
+      size: file.size,
+      storageKey,
+    });
+  }
+
+  /**
+   * Load attachments for a message, ensuring they belong to the session and are not already sent
+   */
+  static async claim(session: Session, attachmentIds: string[]): Promise<Attachment[] | undefined> {
+    const uniqueIds = Array.from(new Set(attachmentIds));
+    const found = await storage.getAttachmentsByIds(uniqueIds);
+
+    const valid = found.length === uniqueIds.length
+      && found.every(attachment => attachment.sessionId === session.id && !attachment.messageId);
+
+    return valid ? found : undefined;
+  }
+
+  static async linkToMessage(attachments: Attachment[], conversationId: string, messageId: string): Promise<void> {
+    for (const attachment of attachments) {
+      await storage.updateAttachment(attachment.id, { conversationId, messageId });
+    }
+  }
+
+  /**
+   * Convert attachments into model parts: images inline, documents as the excerpts most relevant to the query
+   */
+  static async toParts(attachments: Attachment[], query: string): Promise<LLMPart[]> {
+    const parts: LLMPart[] = [];
+    const documents = attachments.filter(attachment => isExtractable(attachment.mimeType));
+    const budgetPerDocument = Math.floor(DOCUMENT_TOKEN_BUDGET / Math.max(1, documents.length));
+
+    for (const attachment of attachments) {
+      if (INLINE_IMAGE_TYPES.includes(attachment.mimeType)) {
+        const data = await blobStorage.get(attachment.storageKey);
+        parts.push({ inlineData: { mimeType: attachment.mimeType, data: data.toString('base64') } });
+        continue;
+      }
+
+      if (!isExtractable(attachment.mimeType)) {
+        parts.push({ text: `[Attached file "${attachment.fileName}" (${attachment.mimeType}) could not be read]` });
+        continue;
+      }
+
+      const chunks = await DocumentExtractionService.getChunks(attachment);
+
+      // Scanned PDFs have no text layer; let the model read the file itself
+      if (chunks.length === 0 && attachment.mimeType === 'application/pdf') {
+        const data = await blobStorage.get(attachment.storageKey);
+        parts.push({ inlineData: { mimeType: attachment.mimeType, data: data.toString('base64') } });
+        continue;
+      }
+
+      if (chunks.length === 0) {
+        parts.push({ text: `[Attached document "${attachment.fileName}" contains no readable text]` });
+        continue;
+      }
+
+      const excerpts = selectRelevantChunks(chunks, query, budgetPerDocument);
+      const header = excerpts.length === chunks.length
+        ? `Attached document "${attachment.fileName}":`
+        : `Attached document "${attachment.fileName}" (${excerpts.length} of ${chunks.length} sections most relevant to the question):`;
+      parts.push({ text: `${header}\n\n${excerpts.join('\n\n[...]\n\n')}` });
+    }
+
+    return parts;
+  }
+
+  /**
+   * Extract document text in the background so it is cached before the message is sent
+   */
+  static prepare(attachment: Attachment): void {
+    if (!isExtractable(attachment.mimeType)) return;
+    DocumentExtractionService.getChunks(attachment).catch((error) => {
+      console.error('[Attachments] Background extraction failed:', error);
+    });
+  }
+
+  static toSummary(attachment: Attachment): AttachmentSummary {
+    return {
+      id: attachment.id,
+      kind: attachment.kind,
+      fileName: attachment.fileName,
+      mimeType: attachment.mimeType,
+      size: attachment.size,
+    };
+  }
+}
@@ -0,0 +1,63 @@
+// Audio Storage Service
+// Stores generated speech in blob storage and records it in the audio cache. Files are served
+// from /api/audio/:secureToken to their owner until the token expires.
+
+import { storage } from '../storage';
+import { blobStorage } from './blobStorage';
+import { generateSecureToken } from '../utils/fingerprint';
+import type { AudioCache } from '@shared/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const AUDIO_TOKEN_TTL_MS = parseInt(process.env.AUDIO_TOKEN_TTL_DAYS || '30', 10) * DAY_MS;
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  'audio/ogg': 'ogg',
+  'audio/webm': 'webm',
+};
+
+export function getAudioUrl(secureToken: string): string {
+  return `/api/audio/${secureToken}`;
+}
+
+export interface SaveAudioOptions {
+  sessionId: string;
+  conversationId: string;
+  messageId?: string | null;
+  text: string;
+  data: Buffer;
+  mimeType: string;
+  duration?: number;
+  voiceSettings?: Record<string, unknown>;
+}
+
+export class AudioStorageService {
+  /**
+   * Store an audio file and record it for the session
+   */
+  static async save(options: SaveAudioOptions): Promise<AudioCache> {
+    const secureToken = generateSecureToken();
+    const storageKey = `audio/${secureToken}.${FILE_EXTENSIONS[options.mimeType] || 'bin'}`;
+    await blobStorage.put(storageKey, options.data, options.mimeType);
+
+    return storage.createAudioCache({
+      sessionId: options.sessionId,
+      conversationId: options.conversationId,
+      messageId: options.messageId ?? null,
+      audioUrl: getAudioUrl(secureToken),
+      secureToken,
+      storageKey,
+      mimeType: options.mimeType,
+      sizeBytes: options.data.length,
+      text: options.text,
+      duration: options.duration,
+      voiceSettings: options.voiceSettings,
+      expiresAt: new Date(Date.now() + AUDIO_TOKEN_TTL_MS),
+    });
+  }
+
+  static isExpired(audio: AudioCache): boolean {
+    return !!audio.expiresAt && audio.expiresAt < new Date();
+  }
+}
@@ -0,0 +1,159 @@
+// Blob Storage Service
+// Persists generated and uploaded files outside the database. Keys are relative paths like "images/<token>.png".
+// BLOB_STORAGE_BACKEND=local (default, under BLOB_STORAGE_DIR) or s3 for any S3-compatible bucket.
+
+import fs from 'fs';
+import path from 'path';
+import type { Readable } from 'stream';
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client,
+  type S3ClientConfig,
+} from '@aws-sdk/client-s3';
+
+// Inclusive byte offsets, as in HTTP Range headers
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface BlobStore {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  createReadStream(key: string, range?: ByteRange): Promise<Readable>;
+  size(key: string): Promise<number>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
+
+export class LocalBlobStore implements BlobStore {
+  constructor(private rootDir: string) {}
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return fs.promises.readFile(this.resolve(key));
+  }
+
+  async createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+    const filePath = this.resolve(key);
+    await fs.promises.access(filePath, fs.constants.R_OK);
+    return fs.createReadStream(filePath, range ? { start: range.start, end: range.end } : undefined);
+  }
+
+  async size(key: string): Promise<number> {
+    const stats = await fs.promises.stat(this.resolve(key));
+    return stats.size;
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.promises.access(this.resolve(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  /**
+   * Map a key to a file path, refusing anything that escapes the storage root
+   */
+  private resolve(key: string): string {
+    const root = path.resolve(this.rootDir);
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+export class S3BlobStore implements BlobStore {
+  private client: S3Client;
+
+  constructor(private bucket: string, config: S3ClientConfig = {}) {
+    this.client = new S3Client(config);
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: data,
+      ContentType: contentType,
+    }));
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const result = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+    if (!result.Body) throw new Error(`Blob not found: ${key}`);
+    return Buffer.from(await result.Body.transformToByteArray());
+  }
+
+  async createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+    const result = await this.client.send(new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+    }));
+    if (!result.Body) throw new Error(`Blob not found: ${key}`);
+    // In Node the body is an http.IncomingMessage
+    return result.Body as Readable;
+  }
+
+  async size(key: string): Promise<number> {
+    const result = await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+    return result.ContentLength ?? 0;
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+      return true;
+    } catch (error: any) {
+      if (error?.$metadata?.httpStatusCode === 404) return false;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+}
+
+/**
+ * S3-compatible storage (AWS, R2, MinIO...) from S3_BUCKET, S3_REGION, S3_ENDPOINT and optional
+ * S3_ACCESS_KEY_ID/S3_SECRET_ACCESS_KEY; without keys the SDK's default credential chain is used
+ */
+function createS3BlobStore(): S3BlobStore {
+  const bucket = process.env.S3_BUCKET;
+  if (!bucket) {
+    throw new Error('S3_BUCKET is required when BLOB_STORAGE_BACKEND=s3');
+  }
+
+  const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+  return new S3BlobStore(bucket, {
+    region: process.env.S3_REGION || 'us-east-1',
+    endpoint: process.env.S3_ENDPOINT || undefined,
+    // Self-hosted endpoints such as MinIO usually have no per-bucket hostnames
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+    credentials: accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined,
+  });
+}
+
+// Singleton instance
+export const blobStorage: BlobStore = process.env.BLOB_STORAGE_BACKEND === 's3'
+  ? createS3BlobStore()
+  : new LocalBlobStore(process.env.BLOB_STORAGE_DIR || path.resolve(process.cwd(), 'data', 'blobs'));
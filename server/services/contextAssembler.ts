@@ -0,0 +1,235 @@
+// Conversation Context Assembler
+// Builds role-tagged model contents from stored conversation history within a token budget
+
+import { storage } from '../storage';
+import { MessageTreeService } from './messageTree';
+import { estimateTokens, resolveLLM, type LLMMessage, type LLMPart, type ResolvedLLM } from './llm';
+import type { Message } from '@shared/schema';
+
+const DEFAULT_TOKEN_BUDGET = parseInt(process.env.CONTEXT_TOKEN_BUDGET || '24000', 10);
+const SUMMARY_TOKEN_BUDGET = 600;
+const SUMMARY_INPUT_TOKEN_LIMIT = 12000;
+const SUMMARY_CACHE_SIZE = 500;
+// Approximate cost of an inline image or document part
+const INLINE_PART_TOKEN_ESTIMATE = 300;
+
+export interface AssembledContext {
+  contents: LLMMessage[];
+  estimatedTokens: number;
+  includedMessages: number;
+  trimmedMessages: number;
+  summary?: string;
+}
+
+export interface AssembleOptions {
+  tokenBudget?: number;
+  // Overrides the text sent for the latest user turn (e.g. image prompt rewriting)
+  latestPrompt?: string;
+  // Extra parts (attachments) sent with the latest user turn
+  latestParts?: LLMPart[];
+  // User message to answer when it is not the end of the active branch (regeneration)
+  leafMessageId?: string;
+  // Model the context is sent to; its token count replaces the estimate when budgeting
+  llm?: Pick<ResolvedLLM, 'llm' | 'model'>;
+}
+
+export class ContextAssembler {
+  // Summaries keyed by conversation and the last trimmed message, so they are only generated once
+  private summaryCache: Map<string, string> = new Map();
+
+  /**
+   * Assemble model contents for a conversation whose latest message is the user turn being answered.
+   * Only the active branch is sent. Turns covered by the conversation's rolling summary are replaced by it,
+   * and older turns that still do not fit the budget are collapsed into a summary as well.
+   */
+  async assemble(conversationId: string, options: AssembleOptions = {}): Promise<AssembledContext> {
+    const tokenBudget = options.tokenBudget ?? DEFAULT_TOKEN_BUDGET;
+    const conversation = await storage.getConversation(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+    const history = await MessageTreeService.getActivePath(conversation, options.leafMessageId);
+
+    const latest = history[history.length - 1];
+    if (!latest || latest.role !== 'user') {
+      throw new Error(`Conversation ${conversationId} has no pending user message`);
+    }
+
+    const latestText = options.latestPrompt ?? latest.content;
+
+    // The rolling summary stands in for the turns it covers, when they are on this branch
+    const coveredIndex = conversation.summary && conversation.summaryThroughMessageId
+      ? history.findIndex(message => message.id === conversation.summaryThroughMessageId)
+      : -1;
+    const storedSummary = coveredIndex !== -1 && coveredIndex < history.length - 1 ? conversation.summary : null;
+    const earlier = history.slice(storedSummary ? coveredIndex + 1 : 0, -1);
+
+    const latestParts: LLMPart[] = [{ text: latestText }, ...(options.latestParts || [])];
+
+    // The latest turn is always sent; older turns fill what is left, newest first
+    const summaryTokens = storedSummary ? estimateTokens(storedSummary) : 0;
+    const remainingBudget = tokenBudget - SUMMARY_TOKEN_BUDGET - summaryTokens;
+    let latestTokens = latestParts.reduce((total, part) => total + this.estimatePartTokens(part), 0);
+    let fit = this.fitHistory(earlier, remainingBudget - latestTokens);
+
+    // With the model known, the latest turn is counted by the provider, and the history estimate is
+    // scaled by how far off it was for the turns picked above, then the history is fitted again
+    if (options.llm) {
+      const candidates = earlier.slice(fit.firstIncluded);
+      const [latestCount, historyCount] = await Promise.all([
+        this.countTokens(options.llm, [{ role: 'user', parts: latestParts }]),
+        candidates.length > 0
+          ? this.countTokens(options.llm, candidates.map(message => this.toContent(message.role, message.content)))
+          : undefined,
+      ]);
+      if (latestCount !== undefined) latestTokens = latestCount;
+      const scale = historyCount !== undefined && fit.tokens > 0 ? historyCount / fit.tokens : 1;
+      fit = this.fitHistory(earlier, remainingBudget - latestTokens, scale);
+    }
+
+    let usedTokens = latestTokens + summaryTokens + fit.tokens;
+    const trimmed = earlier.slice(0, fit.firstIncluded);
+    const included = earlier.slice(fit.firstIncluded);
+
+    const contents: LLMMessage[] = [];
+    let summary: string | undefined;
+
+    if (storedSummary || trimmed.length > 0) {
+      const trimmedSummary = trimmed.length > 0 ? await this.summarize(conversationId, trimmed) : undefined;
+      if (trimmedSummary) usedTokens += estimateTokens(trimmedSummary);
+      summary = [storedSummary, trimmedSummary].filter(Boolean).join('\n\n');
+      contents.push(
+        { role: 'user', parts: [{ text: `Summary of our earlier conversation:\n${summary}` }] },
+        { role: 'model', parts: [{ text: 'Got it, I will keep that in mind.' }] },
+      );
+    }
+
+    for (const message of included) {
+      contents.push(this.toContent(message.role, message.content));
+    }
+    contents.push({ role: 'user', parts: latestParts });
+
+    return {
+      contents: this.mergeAdjacentTurns(contents),
+      estimatedTokens: usedTokens,
+      includedMessages: included.length + 1,
+      trimmedMessages: trimmed.length,
+      summary,
+    };
+  }
+
+  /**
+   * Keep the newest turns whose estimated cost, times scale, fits the budget
+   */
+  private fitHistory(earlier: Message[], budget: number, scale = 1): { firstIncluded: number; tokens: number } {
+    let tokens = 0;
+    let firstIncluded = earlier.length;
+
+    for (let i = earlier.length - 1; i >= 0; i--) {
+      const cost = Math.ceil(estimateTokens(earlier[i].content) * scale);
+      if (tokens + cost > budget) break;
+      tokens += cost;
+      firstIncluded = i;
+    }
+
+    return { firstIncluded, tokens };
+  }
+
+  /**
+   * Count tokens with the provider, or undefined when it fails and the estimate has to do
+   */
+  private async countTokens({ llm, model }: Pick<ResolvedLLM, 'llm' | 'model'>, contents: LLMMessage[]): Promise<number | undefined> {
+    try {
+      return await llm.countTokens({ model, contents });
+    } catch (error) {
+      console.error('[Context] Failed to count tokens:', error);
+      return undefined;
+    }
+  }
+
+  private estimatePartTokens(part: LLMPart): number {
+    return 'text' in part ? estimateTokens(part.text) : INLINE_PART_TOKEN_ESTIMATE;
+  }
+
+  private toContent(role: string, text: string): LLMMessage {
+    return {
+      role: role === 'assistant' ? 'model' : 'user',
+      parts: [{ text }],
+    };
+  }
+
+  /**
+   * Chat models expect alternating roles, so consecutive turns from the same side are merged
+   */
+  private mergeAdjacentTurns(contents: LLMMessage[]): LLMMessage[] {
+    const merged: LLMMessage[] = [];
+
+    for (const content of contents) {
+      const previous = merged[merged.length - 1];
+      if (previous && previous.role === content.role) {
+        previous.parts = [...previous.parts, ...content.parts];
+      } else {
+        merged.push({ role: content.role, parts: [...content.parts] });
+      }
+    }
+
+    // A conversation must open with a user turn
+    while (merged.length > 0 && merged[0].role !== 'user') {
+      merged.shift();
+    }
+
+    return merged;
+  }
+
+  /**
+   * Summarize trimmed turns with the model, falling back to an extractive summary
+   */
+  private async summarize(conversationId: string, trimmed: Message[]): Promise<string> {
+    const cacheKey = `${conversationId}:${trimmed[trimmed.length - 1].id}`;
+    const cached = this.summaryCache.get(cacheKey);
+    if (cached) return cached;
+
+    // Keep the summarization request itself bounded, favouring the most recent trimmed turns
+    const lines: string[] = [];
+    let inputTokens = 0;
+    for (let i = trimmed.length - 1; i >= 0; i--) {
+      const line = `${trimmed[i].role === 'assistant' ? 'Assistant' : 'User'}: ${trimmed[i].content}`;
+      inputTokens += estimateTokens(line);
+      if (inputTokens > SUMMARY_INPUT_TOKEN_LIMIT) break;
+      lines.unshift(line);
+    }
+
+    let summary: string;
+    try {
+      const { llm, model } = resolveLLM();
+      const result = await llm.generate({
+        model,
+        contents: `Summarize the following conversation in at most 150 words. Keep names, facts, decisions and open questions the assistant needs to continue the conversation.\n\n${lines.join('\n')}`,
+      });
+      summary = result.text.trim() || this.extractiveSummary(trimmed);
+    } catch (error) {
+      console.error('[Context] Failed to summarize history:', error);
+      summary = this.extractiveSummary(trimmed);
+    }
+
+    if (this.summaryCache.size >= SUMMARY_CACHE_SIZE) {
+      const oldestKey = this.summaryCache.keys().next().value;
+      if (oldestKey) this.summaryCache.delete(oldestKey);
+    }
+    this.summaryCache.set(cacheKey, summary);
+
+    return summary;
+  }
+
+  private extractiveSummary(trimmed: Message[]): string {
+    const maxChars = SUMMARY_TOKEN_BUDGET * 4;
+    const text = trimmed
+      .map(message => `${message.role === 'assistant' ? 'Assistant' : 'User'}: ${message.content.slice(0, 200)}`)
+      .join('\n');
+
+    return text.length > maxChars ? `...${text.slice(text.length - maxChars)}` : text;
+  }
+}
+
+// Singleton instance
+export const contextAssembler = new ContextAssembler();
@@ -0,0 +1,299 @@
+// Conversation Export Service
+// Renders a conversation as Markdown, a standalone HTML page or a versioned JSON document,
+// and recreates conversations from that JSON document under another session
+
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { storage, type ImportedMessage } from '../storage';
+import { MessageTreeService } from './messageTree';
+import { readableLinks } from './urlIngestion';
+import { isAIPersonality } from '../config/personalities';
+import type { Conversation, Message, Session } from '@shared/schema';
+
+export const EXPORT_FORMAT = 'autism-gold.conversation';
+export const EXPORT_VERSION = 1;
+
+const MAX_IMPORT_MESSAGES = 2000;
+const MAX_IMPORT_MESSAGE_LENGTH = 100_000;
+const MAX_IMPORT_TITLE_LENGTH = 200;
+
+export type ExportFormat = 'md' | 'json' | 'html';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { contentType: string; extension: string }> = {
+  md: { contentType: 'text/markdown; charset=utf-8', extension: 'md' },
+  json: { contentType: 'application/json; charset=utf-8', extension: 'json' },
+  html: { contentType: 'text/html; charset=utf-8', extension: 'html' },
+};
+
+// Version 1 of the JSON export. Every branch is included; activeLeafId marks the one shown.
+export interface ConversationExportDocument {
+  format: typeof EXPORT_FORMAT;
+  version: typeof EXPORT_VERSION;
+  exportedAt: string;
+  conversation: {
+    id: string;
+    title: string | null;
+    createdAt: string;
+    updatedAt: string;
+    activeLeafId: string | null;
+  };
+  messages: ExportedMessage[];
+}
+
+export interface ExportedMessage {
+  id: string;
+  parentId: string | null;
+  role: 'user' | 'assistant';
+  content: string;
+  personality: string | null;
+  imageUrl: string | null;
+  audioUrls: string[];
+  links: string[];
+  createdAt: string;
+}
+
+const importSchema = z.object({
+  format: z.literal(EXPORT_FORMAT),
+  version: z.number().int(),
+  conversation: z.object({
+    title: z.string().nullish(),
+    createdAt: z.string().datetime({ offset: true }).nullish(),
+    updatedAt: z.string().datetime({ offset: true }).nullish(),
+    activeLeafId: z.string().nullish(),
+  }),
+  messages: z.array(z.object({
+    id: z.string().min(1),
+    parentId: z.string().nullish(),
+    role: z.enum(['user', 'assistant']),
+    content: z.string().max(MAX_IMPORT_MESSAGE_LENGTH),
+    personality: z.string().nullish(),
+    imageUrl: z.string().nullish(),
+    links: z.array(z.string()).nullish(),
+    createdAt: z.string().datetime({ offset: true }).nullish(),
+  })).min(1).max(MAX_IMPORT_MESSAGES),
+});
+
+export type ImportDocument = z.infer<typeof importSchema>;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Links in exports must work outside the app, so app-relative paths get the server's origin
+function toAbsoluteUrl(url: string | null | undefined, origin: string): string | null {
+  if (!url) return null;
+  if (url.startsWith('/') && !url.startsWith('//')) return `${origin}${url}`;
+  return /^https?:\/\//i.test(url) ? url : null;
+}
+
+// Saved links may omit the scheme, as typed in chat
+function linkHref(link: string): string {
+  return /^https?:\/\//i.test(link) ? link : `https://${link}`;
+}
+
+function formatTimestamp(date: string): string {
+  return new Date(date).toISOString().replace('T', ' ').slice(0, 16) + ' UTC';
+}
+
+function speakerOf(message: ExportedMessage): string {
+  return message.role === 'user' ? 'You' : message.personality ?? 'AI';
+}
+
+export class ConversationExportService {
+  /**
+   * Build the versioned JSON document for a conversation, including every branch
+   */
+  static async toDocument(conversation: Conversation, origin: string): Promise<ConversationExportDocument> {
+    // Resolving the leaf links legacy flat threads before their parents are read
+    const activeLeafId = await MessageTreeService.getActiveLeafId(conversation);
+    const messages = await storage.getMessagesByConversation(conversation.id);
+    const audio = await storage.getAudioCacheByConversation(conversation.id);
+
+    const audioByMessage = new Map<string, string[]>();
+    for (const entry of audio) {
+      if (!entry.messageId) continue;
+      audioByMessage.set(entry.messageId, [...(audioByMessage.get(entry.messageId) ?? []), entry.audioUrl]);
+    }
+
+    return {
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      conversation: {
+        id: conversation.id,
+        title: conversation.title,
+        createdAt: conversation.createdAt.toISOString(),
+        updatedAt: conversation.updatedAt.toISOString(),
+        activeLeafId,
+      },
+      messages: messages.map(message => this.toExportedMessage(message, audioByMessage.get(message.id) ?? [], origin)),
+    };
+  }
+
+  private static toExportedMessage(message: Message, audioUrls: string[], origin: string): ExportedMessage {
+    const metadata = (message.metadata ?? {}) as { personality?: string; links?: string[] };
+    const audio = [message.audioUrl, ...audioUrls]
+      .map(url => toAbsoluteUrl(url, origin))
+      .filter((url): url is string => !!url);
+
+    return {
+      id: message.id,
+      parentId: message.parentMessageId,
+      role: message.role === 'user' ? 'user' : 'assistant',
+      content: message.content,
+      personality: metadata.personality ?? null,
+      imageUrl: toAbsoluteUrl(message.imageUrl, origin),
+      audioUrls: Array.from(new Set(audio)),
+      links: metadata.links ?? [],
+      createdAt: message.createdAt.toISOString(),
+    };
+  }
+
+  /**
+   * The branch that is shown in the app, from the first message to the active leaf
+   */
+  private static activeBranch(document: ConversationExportDocument): ExportedMessage[] {
+    const byId = new Map(document.messages.map(message => [message.id, message]));
+    const branch: ExportedMessage[] = [];
+    const seen = new Set<string>();
+    let current = document.conversation.activeLeafId ? byId.get(document.conversation.activeLeafId) : undefined;
+    while (current && !seen.has(current.id)) {
+      seen.add(current.id);
+      branch.unshift(current);
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+    return branch;
+  }
+
+  static toMarkdown(document: ConversationExportDocument): string {
+    const lines = [
+      `# ${document.conversation.title || 'Untitled chat'}`,
+      '',
+      `_Started ${formatTimestamp(document.conversation.createdAt)} · exported ${formatTimestamp(document.exportedAt)}_`,
+      '',
+    ];
+
+    for (const message of this.activeBranch(document)) {
+      lines.push('---', '', `**${speakerOf(message)}** · ${formatTimestamp(message.createdAt)}`, '', message.content, '');
+      if (message.imageUrl) lines.push(`![Generated image](${message.imageUrl})`, '');
+      message.audioUrls.forEach(url => lines.push(`[Audio](${url})`, ''));
+      message.links.forEach(link => lines.push(`- [${link}](${linkHref(link)})`));
+      if (message.links.length > 0) lines.push('');
+    }
+
+    return lines.join('\n');
+  }
+
+  static toHtml(document: ConversationExportDocument): string {
+    const title = escapeHtml(document.conversation.title || 'Untitled chat');
+    const messages = this.activeBranch(document).map(message => {
+      const extras = [
+        message.imageUrl ? `<img src="${escapeHtml(message.imageUrl)}" alt="Generated image">` : '',
+        ...message.audioUrls.map(url => `<audio controls preload="none" src="${escapeHtml(url)}"></audio>`),
+        ...message.links.map(link => `<a class="link" href="${escapeHtml(linkHref(link))}">${escapeHtml(link)}</a>`),
+      ].join('');
+
+      return `<article class="${message.role}">
+  <header><strong>${escapeHtml(speakerOf(message))}</strong> <time datetime="${message.createdAt}">${formatTimestamp(message.createdAt)}</time></header>
+  <div class="content">${escapeHtml(message.content)}</div>${extras}
+</article>`;
+    }).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src https: http:; media-src https: http:; style-src 'unsafe-inline'">
+<title>${title}</title>
+<style>
+  body { margin: 0 auto; max-width: 80ch; padding: 24px 16px; background: #000; color: #fff; font: 15px/1.5 system-ui, sans-serif; }
+  h1 { font-size: 1.4em; }
+  .meta, time { color: #999; font-size: 0.8em; }
+  article { margin: 16px 0; padding: 8px 16px; border: 2px solid #202020; border-radius: 16px; }
+  article.user { background: #606060; border-color: #eaeaea; }
+  .content { white-space: pre-wrap; }
+  img { display: block; max-width: 100%; margin-top: 8px; border-radius: 12px; }
+  audio { display: block; margin-top: 8px; }
+  .link { display: block; margin-top: 4px; color: #efbf04; font-size: 0.85em; word-break: break-all; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<p class="meta">Started ${formatTimestamp(document.conversation.createdAt)} · exported ${formatTimestamp(document.exportedAt)}</p>
+${messages}
+</body>
+</html>
+`;
+  }
+
+  /**
+   * Validate an uploaded export; returns an error message for anything that cannot be imported
+   */
+  static parse(data: unknown): { document: ImportDocument } | { error: string } {
+    const result = importSchema.safeParse(data);
+    if (!result.success) {
+      return { error: fromZodError(result.error, { prefix: 'Invalid conversation export' }).message };
+    }
+    if (result.data.version > EXPORT_VERSION) {
+      return { error: `Export version ${result.data.version} is newer than this app supports` };
+    }
+    return { document: result.data };
+  }
+
+  /**
+   * Recreate an exported conversation, with all of its branches, under the session
+   */
+  static async import(session: Session, document: ImportDocument): Promise<Conversation> {
+    const ids = new Map<string, string>();
+    const rows: ImportedMessage[] = [];
+    let previousId: string | null = null;
+
+    for (const message of document.messages) {
+      if (ids.has(message.id)) continue; // Keep the first copy of duplicated ids
+      const id = randomUUID();
+      ids.set(message.id, id);
+
+      // Parents must come earlier in the file; anything else continues the thread in file order
+      const parentMessageId = message.parentId === undefined
+        ? previousId
+        : message.parentId === null ? null : ids.get(message.parentId) ?? previousId;
+
+      // Exported image links are absolute; anything else cannot be shown
+      const imageUrl = message.imageUrl && /^https?:\/\//i.test(message.imageUrl) ? message.imageUrl : null;
+      const links = readableLinks(message.links ?? []);
+      rows.push({
+        id,
+        parentMessageId,
+        role: message.role,
+        content: message.content,
+        isImage: !!imageUrl,
+        imageUrl,
+        metadata: {
+          personality: message.personality && isAIPersonality(message.personality) ? message.personality : undefined,
+          links: links.length ? links : undefined,
+          imported: true,
+        },
+        createdAt: message.createdAt ? new Date(message.createdAt) : undefined,
+      });
+      previousId = id;
+    }
+
+    const leafId = document.conversation.activeLeafId ? ids.get(document.conversation.activeLeafId) : undefined;
+    const title = document.conversation.title?.trim().slice(0, MAX_IMPORT_TITLE_LENGTH);
+
+    return storage.importConversation({
+      sessionId: session.id,
+      title: title || 'Imported chat',
+      activeLeafMessageId: leafId ?? rows[rows.length - 1].id,
+      createdAt: document.conversation.createdAt ? new Date(document.conversation.createdAt) : undefined,
+      updatedAt: new Date(),
+    }, rows);
+  }
+}
@@ -0,0 +1,120 @@
+// Conversation Summary Service
+// Background jobs run after each reply: a short model-written title once the first exchange is
+// done, and a rolling summary of the oldest turns that the context assembler sends instead of them
+
+import { storage } from '../storage';
+import { MessageTreeService } from './messageTree';
+import { resolveLLM } from './llm';
+import type { Conversation, Message } from '@shared/schema';
+
+const MAX_TITLE_LENGTH = 80;
+const TITLE_INPUT_CHARS = 1500;
+
+// The newest turns always stay verbatim; older ones are folded into the summary in batches
+const SUMMARY_KEEP_RECENT = 12;
+const SUMMARY_MIN_NEW_MESSAGES = 8;
+const SUMMARY_MESSAGE_CHARS = 2000;
+
+// Conversations with a job in progress, so overlapping replies do not repeat the work
+const running = new Set<string>();
+
+function transcript(messages: Message[], maxChars: number): string {
+  return messages
+    .map(message => `${message.role === 'assistant' ? 'Assistant' : 'User'}: ${message.content.slice(0, maxChars)}`)
+    .join('\n');
+}
+
+// Models like to wrap titles in quotes or add a "Title:" label
+export function cleanTitle(text: string): string {
+  const firstLine = text.trim().split('\n')[0] ?? '';
+  return firstLine
+    .replace(/^title:\s*/i, '')
+    .replace(/^["'*#\s]+|["'*\s.]+$/g, '')
+    .slice(0, MAX_TITLE_LENGTH)
+    .trim();
+}
+
+export class ConversationSummaryService {
+  /**
+   * Start the background jobs for a conversation after a reply was saved. Never throws.
+   */
+  static schedule(conversationId: string): void {
+    if (running.has(conversationId)) return;
+    running.add(conversationId);
+
+    this.run(conversationId)
+      .catch(error => console.error(`[Summary] Failed to update conversation ${conversationId}:`, error))
+      .finally(() => running.delete(conversationId));
+  }
+
+  private static async run(conversationId: string): Promise<void> {
+    const conversation = await storage.getConversation(conversationId);
+    if (!conversation) return;
+
+    const path = await MessageTreeService.getActivePath(conversation);
+    await this.generateTitle(conversation, path);
+    await this.updateSummary(conversation, path);
+  }
+
+  /**
+   * Replace the placeholder title (the start of the first message) once there is a reply to go by
+   */
+  private static async generateTitle(conversation: Conversation, path: Message[]): Promise<void> {
+    if (conversation.titleSource !== 'message') return;
+
+    const firstQuestion = path.find(message => message.role === 'user');
+    const firstReply = path.find(message => message.role === 'assistant');
+    if (!firstQuestion || !firstReply) return;
+
+    // Titles renamed before title sources were tracked no longer match the first message
+    if (conversation.title && conversation.title !== firstQuestion.content.substring(0, 50)) return;
+
+    const { llm, model } = resolveLLM();
+    const result = await llm.generate({
+      model,
+      contents: `Write a title of at most 6 words for this conversation, in the language of the user. Reply with the title only, without quotes.\n\n${transcript([firstQuestion, firstReply], TITLE_INPUT_CHARS)}`,
+      maxOutputTokens: 30,
+      temperature: 0.3,
+    });
+
+    const title = cleanTitle(result.text);
+    if (title) {
+      await storage.setGeneratedTitle(conversation.id, title);
+    }
+  }
+
+  /**
+   * Fold turns that have aged out of the recent window into the conversation's rolling summary
+   */
+  private static async updateSummary(conversation: Conversation, path: Message[]): Promise<void> {
+    // A summary of another branch does not apply; start over from the root
+    const coveredIndex = conversation.summaryThroughMessageId
+      ? path.findIndex(message => message.id === conversation.summaryThroughMessageId)
+      : -1;
+    const previousSummary = coveredIndex === -1 ? null : conversation.summary;
+
+    const cutoff = path.length - SUMMARY_KEEP_RECENT;
+    const newMessages = path.slice(coveredIndex + 1, Math.max(cutoff, 0));
+    if (newMessages.length < SUMMARY_MIN_NEW_MESSAGES) return;
+
+    const { llm, model } = resolveLLM();
+    const result = await llm.generate({
+      model,
+      contents: [
+        'Update the running summary of a conversation with the new messages below, in at most 200 words.',
+        'Keep names, facts, preferences, decisions and open questions the assistant needs to continue the conversation.',
+        'Reply with the updated summary only.',
+        '',
+        `Current summary:\n${previousSummary || '(none yet)'}`,
+        '',
+        `New messages:\n${transcript(newMessages, SUMMARY_MESSAGE_CHARS)}`,
+      ].join('\n'),
+      maxOutputTokens: 400,
+    });
+
+    const summary = result.text.trim();
+    if (summary) {
+      await storage.updateConversationSummary(conversation.id, summary, newMessages[newMessages.length - 1].id);
+    }
+  }
+}
@@ -0,0 +1,163 @@
+// Document Extraction Service
+// Turns PDF, Word and text attachments into cached plain-text chunks and picks the ones relevant to a question
+
+import mammoth from 'mammoth';
+import WordExtractor from 'word-extractor';
+import { PDFParse } from 'pdf-parse';
+import { storage } from '../storage';
+import { blobStorage } from './blobStorage';
+import { estimateTokens } from './llm';
+import type { Attachment } from '@shared/schema';
+
+const CHUNK_SIZE = 2000; // characters
+const CHUNK_OVERLAP = 200;
+const MAX_CHUNKS = 500;
+
+export const EXTRACTABLE_MIME_TYPES = [
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'text/plain',
+];
+
+export function isExtractable(mimeType: string): boolean {
+  return EXTRACTABLE_MIME_TYPES.includes(mimeType);
+}
+
+/**
+ * Split text into overlapping chunks, preferring paragraph and sentence boundaries
+ */
+export function chunkText(text: string, chunkSize: number = CHUNK_SIZE, overlap: number = CHUNK_OVERLAP): string[] {
+  const normalized = text.replace(/\r\n?/g, '\n').replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < normalized.length && chunks.length < MAX_CHUNKS) {
+    let end = Math.min(start + chunkSize, normalized.length);
+
+    if (end < normalized.length) {
+      const window = normalized.slice(start, end);
+      const breakAt = Math.max(window.lastIndexOf('\n\n'), window.lastIndexOf('. '));
+      if (breakAt > chunkSize / 2) {
+        end = start + breakAt + 1;
+      }
+    }
+
+    const chunk = normalized.slice(start, end).trim();
+    if (chunk) chunks.push(chunk);
+    if (end >= normalized.length) break;
+    start = Math.max(end - overlap, start + 1);
+  }
+
+  return chunks;
+}
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().match(/[a-z0-9\u00c0-\uffff]{3,}/g) || [];
+
+/**
+ * Rank chunks against a query with a simple TF-IDF score and return the best ones, in document order,
+ * within the token budget. The first chunk (title, abstract) is always kept as orientation.
+ */
+export function selectRelevantChunks(chunks: string[], query: string, tokenBudget: number): string[] {
+  if (chunks.length === 0) return [];
+
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  const chunkTerms = chunks.map(tokenize);
+
+  const documentFrequency = new Map<string, number>();
+  for (const terms of chunkTerms) {
+    for (const term of Array.from(new Set(terms))) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  const scores = chunkTerms.map((terms) => {
+    if (terms.length === 0) return 0;
+    let score = 0;
+    for (const queryTerm of queryTerms) {
+      const termCount = terms.filter(term => term === queryTerm).length;
+      if (termCount === 0) continue;
+      const idf = Math.log(1 + chunks.length / (documentFrequency.get(queryTerm) || 1));
+      score += (termCount / Math.sqrt(terms.length)) * idf;
+    }
+    return score;
+  });
+
+  const ranked = chunks
+    .map((_, index) => index)
+    .filter(index => index !== 0)
+    .sort((a, b) => scores[b] - scores[a] || a - b);
+
+  const selected = new Set<number>();
+  let usedTokens = 0;
+  for (const index of [0, ...ranked]) {
+    const cost = estimateTokens(chunks[index]);
+    if (usedTokens + cost > tokenBudget) {
+      if (selected.size > 0) continue;
+      // Always return something, even if the first chunk alone is over budget
+      selected.add(index);
+      break;
+    }
+    usedTokens += cost;
+    selected.add(index);
+  }
+
+  return Array.from(selected).sort((a, b) => a - b).map(index => chunks[index]);
+}
+
+export class DocumentExtractionService {
+  /**
+   * Extract plain text from a document buffer
+   */
+  static async extractText(data: Buffer, mimeType: string): Promise<string> {
+    switch (mimeType) {
+      case 'application/pdf': {
+        const parser = new PDFParse({ data });
+        try {
+          const result = await parser.getText();
+          return result.text;
+        } finally {
+          await parser.destroy();
+        }
+      }
+      case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document': {
+        const result = await mammoth.extractRawText({ buffer: data });
+        return result.value;
+      }
+      case 'application/msword': {
+        const document = await new WordExtractor().extract(data);
+        return document.getBody();
+      }
+      case 'text/plain':
+        return data.toString('utf8');
+      default:
+        throw new Error(`Unsupported document type: ${mimeType}`);
+    }
+  }
+
+  /**
+   * Get the text chunks for an attachment, extracting and caching them on first use
+   */
+  static async getChunks(attachment: Attachment): Promise<string[]> {
+    if (attachment.textChunks) {
+      return attachment.textChunks;
+    }
+
+    try {
+      const data = await blobStorage.get(attachment.storageKey);
+      const textChunks = chunkText(await this.extractText(data, attachment.mimeType));
+      await storage.updateAttachment(attachment.id, { textChunks, extractionError: null });
+      attachment.textChunks = textChunks;
+      return textChunks;
+    } catch (error) {
+      console.error(`[Extraction] Failed to extract ${attachment.fileName}:`, error);
+      await storage.updateAttachment(attachment.id, {
+        textChunks: [],
+        extractionError: error instanceof Error ? error.message : String(error),
+      });
+      attachment.textChunks = [];
+      return [];
+    }
+  }
+}
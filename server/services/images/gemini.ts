@@ -0,0 +1,38 @@
+// Gemini (Imagen) Image Provider
+
+import { GoogleGenAI } from '@google/genai';
+import type { ImageProvider, ImageRequest, ImageResult } from './types';
+
+export class GeminiImageProvider implements ImageProvider {
+  readonly name = 'gemini' as const;
+  private client: GoogleGenAI;
+
+  constructor(
+    private model: string = process.env.IMAGE_MODEL || 'imagen-3.0-generate-002',
+    apiKey: string = process.env.GEMINI_API_KEY!,
+  ) {
+    this.client = new GoogleGenAI({ apiKey });
+  }
+
+  async generate(request: ImageRequest): Promise<ImageResult> {
+    const result = await this.client.models.generateImages({
+      model: this.model,
+      prompt: request.prompt,
+      config: {
+        numberOfImages: 1,
+        aspectRatio: request.aspectRatio,
+        outputMimeType: 'image/png',
+      },
+    });
+
+    const image = result.generatedImages?.[0];
+    if (!image?.image?.imageBytes) {
+      throw new Error(image?.raiFilteredReason || 'No image returned');
+    }
+
+    return {
+      data: Buffer.from(image.image.imageBytes, 'base64'),
+      mimeType: image.image.mimeType || 'image/png',
+    };
+  }
+}
@@ -0,0 +1,68 @@
+// Image Generation Service
+// Generates images for requestImage messages, persists them to blob storage and serves them by secure token
+
+import { storage } from '../../storage';
+import { blobStorage } from '../blobStorage';
+import { generateSecureToken } from '../../utils/fingerprint';
+import { GeminiImageProvider } from './gemini';
+import { PlaceholderImageProvider } from './placeholder';
+import type { ImageProvider, ImageProviderName, ImageRequest } from './types';
+import type { GeneratedImage } from '@shared/schema';
+
+export * from './types';
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+};
+
+const providers: Partial<Record<ImageProviderName, ImageProvider>> = {};
+
+export function getImageProvider(
+  name: ImageProviderName = process.env.IMAGE_PROVIDER === 'placeholder' ? 'placeholder' : 'gemini'
+): ImageProvider {
+  if (!providers[name]) {
+    providers[name] = name === 'placeholder'
+      ? new PlaceholderImageProvider()
+      : new GeminiImageProvider();
+  }
+  return providers[name]!;
+}
+
+export function getImageUrl(secureToken: string): string {
+  return `/api/images/${secureToken}`;
+}
+
+export interface GenerateImageOptions extends ImageRequest {
+  sessionId: string;
+  conversationId: string;
+}
+
+export class ImageGenerationService {
+  /**
+   * Generate an image, store the file and record it for the session
+   */
+  static async generate(options: GenerateImageOptions): Promise<GeneratedImage> {
+    const provider = getImageProvider();
+    const result = await provider.generate({
+      prompt: options.prompt,
+      aspectRatio: options.aspectRatio,
+    });
+
+    const secureToken = generateSecureToken();
+    const storageKey = `images/${secureToken}.${FILE_EXTENSIONS[result.mimeType] || 'bin'}`;
+    await blobStorage.put(storageKey, result.data, result.mimeType);
+
+    return storage.createGeneratedImage({
+      sessionId: options.sessionId,
+      conversationId: options.conversationId,
+      secureToken,
+      storageKey,
+      mimeType: result.mimeType,
+      prompt: options.prompt,
+      provider: provider.name,
+    });
+  }
+}
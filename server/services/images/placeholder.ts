@@ -0,0 +1,47 @@
+// Placeholder Image Provider
+// Renders a deterministic SVG card from the prompt; for development and tests without an image API
+
+import crypto from 'crypto';
+import type { ImageProvider, ImageRequest, ImageResult } from './types';
+
+const DIMENSIONS: Record<NonNullable<ImageRequest['aspectRatio']>, [number, number]> = {
+  '1:1': [512, 512],
+  '16:9': [768, 432],
+  '9:16': [432, 768],
+};
+
+const escapeXml = (value: string): string =>
+  value.replace(/[<>&'"]/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[char]!));
+
+export class PlaceholderImageProvider implements ImageProvider {
+  readonly name = 'placeholder' as const;
+
+  async generate(request: ImageRequest): Promise<ImageResult> {
+    const [width, height] = DIMENSIONS[request.aspectRatio || '1:1'];
+    const hue = crypto.createHash('sha256').update(request.prompt).digest()[0] * 360 / 256;
+
+    // Wrap the prompt into a few short lines
+    const words = request.prompt.split(/\s+/).filter(Boolean);
+    const lines: string[] = [];
+    let line = '';
+    for (const word of words) {
+      if ((line + ' ' + word).trim().length > 32) {
+        lines.push(line);
+        line = word;
+        if (lines.length === 6) break;
+      } else {
+        line = (line + ' ' + word).trim();
+      }
+    }
+    if (line && lines.length < 6) lines.push(line);
+
+    const text = lines
+      .map((textLine, i) => `<text x="50%" y="${height / 2 + (i - lines.length / 2) * 28}" text-anchor="middle" font-family="sans-serif" font-size="20" fill="#ffffff">${escapeXml(textLine)}</text>`)
+      .join('');
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+      + `<rect width="100%" height="100%" fill="hsl(${Math.round(hue)}, 60%, 30%)"/>${text}</svg>`;
+
+    return { data: Buffer.from(svg, 'utf8'), mimeType: 'image/svg+xml' };
+  }
+}
@@ -0,0 +1,18 @@
+// Image Provider Types
+
+export type ImageProviderName = 'gemini' | 'placeholder';
+
+export interface ImageRequest {
+  prompt: string;
+  aspectRatio?: '1:1' | '16:9' | '9:16';
+}
+
+export interface ImageResult {
+  data: Buffer;
+  mimeType: string;
+}
+
+export interface ImageProvider {
+  readonly name: ImageProviderName;
+  generate(request: ImageRequest): Promise<ImageResult>;
+}
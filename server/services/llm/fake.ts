@@ -0,0 +1,73 @@
+// Fake LLM Provider
+// Deterministic, offline provider for development and tests.
+// Replies come from a script (in order) and fall back to echoing the last user turn.
+
+import fs from 'fs';
+import {
+  estimateTokens,
+  messageText,
+  toMessages,
+  type LLMProvider,
+  type LLMRequest,
+  type LLMResult,
+} from './types';
+
+export class FakeLLMProvider implements LLMProvider {
+  readonly name = 'fake' as const;
+  private script: string[];
+  private cursor = 0;
+
+  constructor(script: string[] = FakeLLMProvider.loadScript()) {
+    this.script = script;
+  }
+
+  /**
+   * Load scripted replies from the JSON array file named by LLM_FAKE_SCRIPT
+   */
+  static loadScript(): string[] {
+    const scriptPath = process.env.LLM_FAKE_SCRIPT;
+    if (!scriptPath) return [];
+
+    const parsed = JSON.parse(fs.readFileSync(scriptPath, 'utf8'));
+    if (!Array.isArray(parsed) || !parsed.every(entry => typeof entry === 'string')) {
+      throw new Error('LLM_FAKE_SCRIPT must point to a JSON array of strings');
+    }
+    return parsed;
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResult> {
+    const text = this.nextReply(request);
+    return {
+      text,
+      usage: {
+        inputTokens: await this.countTokens(request),
+        outputTokens: estimateTokens(text),
+      },
+    };
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<string> {
+    const text = this.nextReply(request);
+
+    // Emit word by word so streaming consumers see several deltas
+    for (const token of text.match(/\S+\s*/g) || []) {
+      if (request.signal?.aborted) return;
+      yield token;
+    }
+  }
+
+  async countTokens(request: Omit<LLMRequest, 'signal'>): Promise<number> {
+    const text = toMessages(request.contents).map(messageText).join('\n');
+    return estimateTokens((request.systemInstruction || '') + text);
+  }
+
+  private nextReply(request: LLMRequest): string {
+    if (this.cursor < this.script.length) {
+      return this.script[this.cursor++];
+    }
+
+    const messages = toMessages(request.contents);
+    const lastUserTurn = [...messages].reverse().find(message => message.role === 'user');
+    return `[fake:${request.model}] ${lastUserTurn ? messageText(lastUserTurn) : ''}`.trim();
+  }
+}
@@ -0,0 +1,59 @@
+// Gemini LLM Provider
+
+import { GoogleGenAI, type GenerateContentConfig } from '@google/genai';
+import { toMessages, type LLMProvider, type LLMRequest, type LLMResult } from './types';
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini' as const;
+  private client: GoogleGenAI;
+
+  constructor(apiKey: string = process.env.GEMINI_API_KEY!) {
+    this.client = new GoogleGenAI({ apiKey });
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResult> {
+    const result = await this.client.models.generateContent({
+      model: request.model,
+      contents: toMessages(request.contents),
+      config: this.buildConfig(request),
+    });
+
+    return {
+      text: result.text || '',
+      usage: {
+        inputTokens: result.usageMetadata?.promptTokenCount,
+        outputTokens: result.usageMetadata?.candidatesTokenCount,
+      },
+    };
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<string> {
+    const responseStream = await this.client.models.generateContentStream({
+      model: request.model,
+      contents: toMessages(request.contents),
+      config: this.buildConfig(request),
+    });
+
+    for await (const chunk of responseStream) {
+      if (chunk.text) yield chunk.text;
+    }
+  }
+
+  async countTokens(request: Omit<LLMRequest, 'signal'>): Promise<number> {
+    const result = await this.client.models.countTokens({
+      model: request.model,
+      contents: toMessages(request.contents),
+    });
+
+    return result.totalTokens ?? 0;
+  }
+
+  private buildConfig(request: LLMRequest): GenerateContentConfig {
+    return {
+      systemInstruction: request.systemInstruction,
+      maxOutputTokens: request.maxOutputTokens,
+      temperature: request.temperature,
+      abortSignal: request.signal,
+    };
+  }
+}
@@ -0,0 +1,40 @@
+// LLM Provider Registry
+
+import { resolveLLMSelection, type LLMSelection } from '../../config/llm';
+import type { AIPersonality } from '../../config/webhooks';
+import { FakeLLMProvider } from './fake';
+import { GeminiProvider } from './gemini';
+import { OpenAICompatibleProvider } from './openaiCompatible';
+import type { LLMProvider, LLMProviderName } from './types';
+
+export * from './types';
+
+const providers: Partial<Record<LLMProviderName, LLMProvider>> = {};
+
+export function getLLMProvider(name: LLMProviderName): LLMProvider {
+  if (!providers[name]) {
+    switch (name) {
+      case 'openai':
+        providers[name] = new OpenAICompatibleProvider();
+        break;
+      case 'fake':
+        providers[name] = new FakeLLMProvider();
+        break;
+      default:
+        providers[name] = new GeminiProvider();
+    }
+  }
+  return providers[name]!;
+}
+
+export interface ResolvedLLM extends LLMSelection {
+  llm: LLMProvider;
+}
+
+/**
+ * Resolve the provider instance and model for a tier/personality
+ */
+export function resolveLLM(tier?: string, personality?: AIPersonality): ResolvedLLM {
+  const selection = resolveLLMSelection(tier, personality);
+  return { ...selection, llm: getLLMProvider(selection.provider) };
+}
@@ -0,0 +1,139 @@
+// OpenAI-compatible LLM Provider
+// Works with any /v1/chat/completions endpoint (OpenAI, Ollama, LM Studio, vLLM, ...)
+
+import axios from 'axios';
+import type { Readable } from 'stream';
+import {
+  estimateTokens,
+  messageText,
+  toMessages,
+  type LLMMessage,
+  type LLMProvider,
+  type LLMRequest,
+  type LLMResult,
+} from './types';
+
+type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ChatContentPart[];
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+
+  constructor(
+    private baseUrl: string = process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+    private apiKey: string | undefined = process.env.OPENAI_API_KEY,
+  ) {}
+
+  async generate(request: LLMRequest): Promise<LLMResult> {
+    const response = await axios.post(
+      `${this.baseUrl}/chat/completions`,
+      this.buildBody(request, false),
+      {
+        headers: this.buildHeaders(),
+        signal: request.signal,
+        timeout: 120000,
+      }
+    );
+
+    return {
+      text: response.data.choices?.[0]?.message?.content || '',
+      usage: {
+        inputTokens: response.data.usage?.prompt_tokens,
+        outputTokens: response.data.usage?.completion_tokens,
+      },
+    };
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<string> {
+    const response = await axios.post<Readable>(
+      `${this.baseUrl}/chat/completions`,
+      this.buildBody(request, true),
+      {
+        headers: this.buildHeaders(),
+        signal: request.signal,
+        responseType: 'stream',
+      }
+    );
+
+    let buffer = '';
+    for await (const chunk of response.data) {
+      buffer += chunk.toString();
+
+      let newline = buffer.indexOf('\n');
+      while (newline !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        newline = buffer.indexOf('\n');
+
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') return;
+
+        const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    }
+  }
+
+  async countTokens(request: Omit<LLMRequest, 'signal'>): Promise<number> {
+    // The chat completions API has no tokenizer endpoint, so estimate
+    const text = toMessages(request.contents).map(messageText).join('\n');
+    return estimateTokens((request.systemInstruction || '') + text);
+  }
+
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+
+  private buildBody(request: LLMRequest, stream: boolean) {
+    const messages: ChatMessage[] = [];
+
+    if (request.systemInstruction) {
+      messages.push({ role: 'system', content: request.systemInstruction });
+    }
+
+    for (const message of toMessages(request.contents)) {
+      messages.push(this.toChatMessage(message));
+    }
+
+    return {
+      model: request.model,
+      messages,
+      stream,
+      max_tokens: request.maxOutputTokens,
+      temperature: request.temperature,
+    };
+  }
+
+  private toChatMessage(message: LLMMessage): ChatMessage {
+    const role = message.role === 'model' ? 'assistant' : 'user';
+    const hasBinary = message.parts.some(part => 'inlineData' in part);
+
+    if (!hasBinary) {
+      return { role, content: messageText(message) };
+    }
+
+    // Chat completions only take images inline; other files (such as scanned PDFs) are left out with a note
+    return {
+      role,
+      content: message.parts.map((part): ChatContentPart => {
+        if ('text' in part) return { type: 'text', text: part.text };
+
+        const { mimeType, data } = part.inlineData;
+        return mimeType.startsWith('image/')
+          ? { type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } }
+          : { type: 'text', text: `[A ${mimeType} file was attached but could not be read by this model]` };
+      }),
+    };
+  }
+}
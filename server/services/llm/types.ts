@@ -0,0 +1,79 @@
+// LLM Provider Types
+// Provider-neutral request/response shapes shared by every model backend
+
+export type LLMProviderName = 'gemini' | 'openai' | 'fake';
+
+export type LLMRole = 'user' | 'model';
+
+export type LLMPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } };
+
+export interface LLMMessage {
+  role: LLMRole;
+  parts: LLMPart[];
+}
+
+export interface LLMRequest {
+  model: string;
+  contents: LLMMessage[] | string;
+  systemInstruction?: string;
+  maxOutputTokens?: number;
+  temperature?: number;
+  signal?: AbortSignal;
+}
+
+export interface LLMUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+export interface LLMResult {
+  text: string;
+  usage?: LLMUsage;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+
+  /**
+   * Generate a complete reply
+   */
+  generate(request: LLMRequest): Promise<LLMResult>;
+
+  /**
+   * Stream a reply as text deltas
+   */
+  stream(request: LLMRequest): AsyncIterable<string>;
+
+  /**
+   * Count the input tokens a request would use
+   */
+  countTokens(request: Omit<LLMRequest, 'signal'>): Promise<number>;
+}
+
+/**
+ * Normalize a plain prompt into a single user turn
+ */
+export function toMessages(contents: LLMMessage[] | string): LLMMessage[] {
+  return typeof contents === 'string'
+    ? [{ role: 'user', parts: [{ text: contents }] }]
+    : contents;
+}
+
+/**
+ * Concatenate the text parts of a message, ignoring binary parts
+ */
+export function messageText(message: LLMMessage): string {
+  return message.parts
+    .map(part => ('text' in part ? part.text : ''))
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Rough token estimate (~4 characters per token) for providers without a tokenizer endpoint
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
@@ -0,0 +1,83 @@
+// Memory Bank Service
+// Facts the user asks the AI to remember, kept per session and added to the system prompt
+// of every chat and voice turn. Only session scope is supported: wallet connects are not signed,
+// so a wallet address cannot prove ownership and memories are not shared across a wallet's sessions.
+
+import { storage } from '../storage';
+import { getTierLimits } from '../utils/solana';
+import { getPersonalitySystemPrompt } from '../config/personalities';
+import type { Memory, Session } from '@shared/schema';
+
+export interface MemoryUsage {
+  used: number; // characters
+  limit: number;
+}
+
+export class MemoryBankService {
+  static async list(session: Session): Promise<Memory[]> {
+    return storage.getMemories(session.id);
+  }
+
+  /**
+   * Load a memory if the session wrote it
+   */
+  static async find(session: Session, id: string): Promise<Memory | undefined> {
+    const memory = await storage.getMemory(id);
+    return memory && memory.sessionId === session.id ? memory : undefined;
+  }
+
+  static getUsage(session: Session, memories: Memory[]): MemoryUsage {
+    return {
+      used: memories.reduce((total, memory) => total + memory.content.length, 0),
+      limit: getTierLimits(session.tier).memoryLimit,
+    };
+  }
+
+  /**
+   * Check that saving the content keeps the Memory Bank within the tier's size cap,
+   * returning an error message if it does not
+   */
+  static async checkCapacity(session: Session, content: string, replacingId?: string): Promise<string | undefined> {
+    const memories = await this.list(session);
+    const { used, limit } = this.getUsage(session, memories.filter(memory => memory.id !== replacingId));
+
+    if (used + content.length > limit) {
+      return `Memory Bank is full: your tier allows ${limit} characters (${Math.max(0, limit - used)} left)`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Memories to put in front of the model, oldest first, stopping at the tier's cap
+   * in case a lower tier no longer has room for all of them
+   */
+  static async forPrompt(session: Session): Promise<string[]> {
+    const memories = await this.list(session);
+    const { limit } = this.getUsage(session, memories);
+
+    const included: string[] = [];
+    let used = 0;
+    for (const memory of memories) {
+      used += memory.content.length;
+      if (used > limit) break;
+      included.push(memory.content.replace(/\s*\n\s*/g, ' '));
+    }
+    return included;
+  }
+
+  /**
+   * The personality's system prompt followed by the user's memories
+   */
+  static async buildSystemPrompt(session: Session, personality: string): Promise<string> {
+    const basePrompt = getPersonalitySystemPrompt(personality);
+    const memories = await this.forPrompt(session);
+    if (memories.length === 0) {
+      return basePrompt;
+    }
+
+    return `${basePrompt}
+
+The user asked you to remember the following about them. Use it when relevant, without repeating it back unprompted:
+${memories.map(memory => `- ${memory}`).join('\n')}`;
+  }
+}
@@ -0,0 +1,102 @@
+// Message Tree Service
+// Conversations are trees: editing a user message or regenerating a reply adds a sibling branch.
+// The conversation's active leaf decides which branch is shown and sent to the model.
+
+import { storage } from '../storage';
+import type { Conversation, Message } from '@shared/schema';
+
+// A message on the active branch, with the ids of all versions at its position (itself included)
+export type ThreadMessage = Message & { siblingIds: string[] };
+
+export class MessageTreeService {
+  /**
+   * Load every message of a conversation, linking legacy flat threads into a single branch first
+   */
+  private static async loadMessages(conversation: Conversation): Promise<Message[]> {
+    const messages = await storage.getMessagesByConversation(conversation.id);
+
+    // Threads written before branching existed have no parent links or active leaf
+    if (!conversation.activeLeafMessageId && messages.length > 0) {
+      for (let i = 1; i < messages.length; i++) {
+        if (!messages[i].parentMessageId) {
+          messages[i].parentMessageId = messages[i - 1].id;
+          await storage.updateMessage(messages[i].id, { parentMessageId: messages[i - 1].id });
+        }
+      }
+      const leafId = messages[messages.length - 1].id;
+      await storage.setActiveLeafMessage(conversation.id, leafId);
+      conversation.activeLeafMessageId = leafId;
+    }
+
+    return messages;
+  }
+
+  /**
+   * Walk from a leaf up to the root, returning the branch in conversation order
+   */
+  private static pathTo(messages: Message[], leafId: string | null | undefined): Message[] {
+    const byId = new Map(messages.map(message => [message.id, message]));
+    const path: Message[] = [];
+    const seen = new Set<string>();
+
+    let current = leafId ? byId.get(leafId) : undefined;
+    while (current && !seen.has(current.id)) {
+      seen.add(current.id);
+      path.unshift(current);
+      current = current.parentMessageId ? byId.get(current.parentMessageId) : undefined;
+    }
+
+    return path;
+  }
+
+  /**
+   * Messages on the active branch, or the branch ending at the given message
+   */
+  static async getActivePath(conversation: Conversation, leafMessageId?: string): Promise<Message[]> {
+    const messages = await this.loadMessages(conversation);
+    return this.pathTo(messages, leafMessageId ?? conversation.activeLeafMessageId);
+  }
+
+  /**
+   * The last message of the active branch, which a new user message should follow
+   */
+  static async getActiveLeafId(conversation: Conversation): Promise<string | null> {
+    await this.loadMessages(conversation);
+    return conversation.activeLeafMessageId;
+  }
+
+  /**
+   * The active branch with sibling information for the branch switcher
+   */
+  static async getThread(conversation: Conversation): Promise<ThreadMessage[]> {
+    const messages = await this.loadMessages(conversation);
+    const path = this.pathTo(messages, conversation.activeLeafMessageId);
+
+    return path.map(message => ({
+      ...message,
+      siblingIds: messages
+        .filter(other => other.parentMessageId === message.parentMessageId)
+        .map(other => other.id),
+    }));
+  }
+
+  /**
+   * Show the branch containing the given message, continuing down its most recent replies
+   */
+  static async switchBranch(conversation: Conversation, messageId: string): Promise<ThreadMessage[] | undefined> {
+    const messages = await this.loadMessages(conversation);
+    let leaf = messages.find(message => message.id === messageId);
+    if (!leaf) return undefined;
+
+    // Messages are ordered by creation, so the last child found is the newest
+    for (;;) {
+      const children = messages.filter(message => message.parentMessageId === leaf!.id);
+      if (children.length === 0) break;
+      leaf = children[children.length - 1];
+    }
+
+    await storage.setActiveLeafMessage(conversation.id, leaf.id);
+    conversation.activeLeafMessageId = leaf.id;
+    return this.getThread(conversation);
+  }
+}
@@ -4,6 +4,7 @@
 import axios, { AxiosError } from 'axios';
 import { getWebhookUrl, type AIPersonality, type Modality, type WebhookPayload, type WebhookResponse } from '../config/webhooks';
 import { storage } from '../storage';
+import type { LLMMessage } from './llm';
 
 export class N8NWebhookService {
   /**
@@ -78,7 +79,8 @@ export class N8NWebhookService {
     sessionId: string,
     conversationId?: string,
     messageId?: string,
-    metadata?: any
+    metadata?: any,
+    context?: LLMMessage[]
   ): Promise<WebhookResponse> {
     return this.sendToWebhook({
       personality,
@@ -87,6 +89,7 @@ export class N8NWebhookService {
       conversationId,
       messageId,
       content,
+      context,
       metadata,
     });
   }
@@ -113,6 +116,24 @@ export class N8NWebhookService {
     });
   }
 
+  /**
+   * Process a chat message through N8N, routing image requests to the IMAGE workflow
+   */
+  static async processChatMessage(
+    personality: AIPersonality,
+    modality: Extract<Modality, 'TEXT' | 'IMAGE'>,
+    content: string,
+    sessionId: string,
+    conversationId?: string,
+    messageId?: string,
+    metadata?: WebhookPayload['metadata'],
+    context?: LLMMessage[]
+  ): Promise<WebhookResponse> {
+    return modality === 'IMAGE'
+      ? this.processImageRequest(personality, content, sessionId, conversationId, messageId, metadata, context)
+      : this.processTextMessage(personality, content, sessionId, conversationId, messageId, metadata, context);
+  }
+
   /**
    * Process IMAGE request through N8N
    */
@@ -122,7 +143,8 @@ export class N8NWebhookService {
     sessionId: string,
     conversationId?: string,
     messageId?: string,
-    metadata?: any
+    metadata?: any,
+    context?: LLMMessage[]
   ): Promise<WebhookResponse> {
     return this.sendToWebhook({
       personality,
@@ -131,6 +153,7 @@ export class N8NWebhookService {
       conversationId,
       messageId,
       content,
+      context,
       metadata,
     });
   }
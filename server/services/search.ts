@@ -0,0 +1,71 @@
+// Search Service
+// Full-text search over the caller's conversation titles and messages, scoped to the session.
+// Only session scope is supported: wallet connects are not signed, so a wallet address cannot prove
+// ownership and there is no per-wallet scope that searches a wallet's other sessions.
+
+import { storage, SEARCH_MATCH_START, SEARCH_MATCH_END, type SearchHit } from '../storage';
+import type { Session } from '@shared/schema';
+
+export interface SearchFilters {
+  personality?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+// A piece of a snippet; matched pieces are highlighted by the client
+export interface SnippetSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  conversationId: string;
+  conversationTitle: string | null;
+  messageId: string | null;
+  role: string | null;
+  personality: string | null;
+  snippet: SnippetSegment[];
+  createdAt: Date;
+}
+
+/**
+ * Split a ts_headline excerpt into plain and matched segments
+ */
+export function toSnippet(headline: string): SnippetSegment[] {
+  const segments: SnippetSegment[] = [];
+  let rest = headline;
+
+  while (rest.length > 0) {
+    const start = rest.indexOf(SEARCH_MATCH_START);
+    if (start === -1) {
+      segments.push({ text: rest, match: false });
+      break;
+    }
+
+    if (start > 0) segments.push({ text: rest.slice(0, start), match: false });
+    const end = rest.indexOf(SEARCH_MATCH_END, start);
+    const matchEnd = end === -1 ? rest.length : end;
+    segments.push({ text: rest.slice(start + 1, matchEnd), match: true });
+    rest = rest.slice(matchEnd + 1);
+  }
+
+  return segments.filter(segment => segment.text.length > 0);
+}
+
+export class SearchService {
+  static async search(session: Session, query: string, filters: SearchFilters): Promise<SearchResult[]> {
+    const hits = await storage.searchConversations(query, {
+      sessionId: session.id,
+      personality: filters.personality,
+      from: filters.from,
+      to: filters.to,
+      limit: filters.limit,
+    });
+
+    return hits.map(({ headline, rank, ...hit }: SearchHit) => ({
+      ...hit,
+      snippet: toSnippet(headline),
+    }));
+  }
+}
@@ -0,0 +1,122 @@
+// Share Link Service
+// Publishes a read-only snapshot of a conversation at /s/:token. Links can be revoked by their
+// owner and count their views; generated images in the snapshot are served through the link.
+
+import { storage } from '../storage';
+import { generateShareToken } from '../utils/fingerprint';
+import { MessageTreeService } from './messageTree';
+import type { PageMeta } from '../utils/pageMeta';
+import type { Conversation, Session, ShareLink, ShareSnapshot } from '@shared/schema';
+
+const IMAGE_PATH_PREFIX = '/api/images/';
+const DESCRIPTION_LENGTH = 200;
+const DEFAULT_SHARE_IMAGE = '/autism-ai.png';
+
+// What the owner sees in the share dialog
+export interface ShareLinkSummary {
+  id: string;
+  token: string;
+  url: string;
+  viewCount: number;
+  lastViewedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+export function getSharePath(token: string): string {
+  return `/s/${token}`;
+}
+
+function getSharedImagePath(token: string, imageToken: string): string {
+  return `/api/share/${token}/images/${imageToken}`;
+}
+
+function truncate(text: string, length: number): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > length ? `${singleLine.slice(0, length - 1)}…` : singleLine;
+}
+
+export class ShareLinkService {
+  /**
+   * Share the conversation's active branch as it is now; later messages are not published
+   */
+  static async create(session: Session, conversation: Conversation): Promise<ShareLink> {
+    const branch = await MessageTreeService.getActivePath(conversation);
+    const snapshot: ShareSnapshot = {
+      title: conversation.title,
+      messages: branch.map(message => ({
+        role: message.role === 'user' ? 'user' : 'assistant',
+        content: message.content,
+        personality: (message.metadata as { personality?: string } | null)?.personality ?? null,
+        imageUrl: message.imageUrl?.startsWith(IMAGE_PATH_PREFIX) ? message.imageUrl : null,
+        createdAt: message.createdAt.toISOString(),
+      })),
+    };
+
+    return storage.createShareLink({
+      sessionId: session.id,
+      conversationId: conversation.id,
+      token: generateShareToken(),
+      snapshot,
+    });
+  }
+
+  static toSummary(link: ShareLink, origin: string): ShareLinkSummary {
+    return {
+      id: link.id,
+      token: link.token,
+      url: `${origin}${getSharePath(link.token)}`,
+      viewCount: link.viewCount,
+      lastViewedAt: link.lastViewedAt,
+      revokedAt: link.revokedAt,
+      createdAt: link.createdAt,
+    };
+  }
+
+  /**
+   * A link that can still be viewed, or undefined for unknown and revoked tokens
+   */
+  static async findActive(token: string): Promise<ShareLink | undefined> {
+    const link = await storage.getShareLinkByToken(token);
+    return link && !link.revokedAt ? link : undefined;
+  }
+
+  /**
+   * The snapshot as published, with image links pointing at the share link's image route
+   */
+  static toPublicSnapshot(link: ShareLink): ShareSnapshot {
+    return {
+      title: link.snapshot.title,
+      messages: link.snapshot.messages.map(message => ({
+        ...message,
+        imageUrl: message.imageUrl
+          ? getSharedImagePath(link.token, message.imageUrl.slice(IMAGE_PATH_PREFIX.length))
+          : null,
+      })),
+    };
+  }
+
+  /**
+   * Only images that appear in the snapshot are served through the link
+   */
+  static includesImage(link: ShareLink, imageToken: string): boolean {
+    return link.snapshot.messages.some(message => message.imageUrl === `${IMAGE_PATH_PREFIX}${imageToken}`);
+  }
+
+  /**
+   * Open Graph and Twitter card details so the link unfurls in chat apps
+   */
+  static getPageMeta(link: ShareLink, origin: string): PageMeta {
+    const { title, messages } = this.toPublicSnapshot(link);
+    const firstReply = messages.find(message => message.role === 'assistant') ?? messages[0];
+    const image = messages.find(message => message.imageUrl)?.imageUrl;
+
+    return {
+      title: `${title || 'A chat'} · AUtism GOLD`,
+      description: firstReply ? truncate(firstReply.content, DESCRIPTION_LENGTH) : 'A conversation shared from AUtism GOLD',
+      url: `${origin}${getSharePath(link.token)}`,
+      image: `${origin}${image ?? DEFAULT_SHARE_IMAGE}`,
+      largeImage: !!image,
+    };
+  }
+}
@@ -0,0 +1,44 @@
+// Fake Speech-to-Text Provider
+// Offline provider for development and tests: ignores the audio and returns fixed transcripts
+// in order, from the JSON array file named by STT_FAKE_TRANSCRIPTS.
+
+import fs from 'fs';
+import type { SpeechToTextProvider, TranscriptEvent, TranscriptionRequest } from './types';
+
+const DEFAULT_TRANSCRIPTS = ['Hello, can you hear me?'];
+
+export class FakeSpeechProvider implements SpeechToTextProvider {
+  readonly name = 'fake' as const;
+  private transcripts: string[];
+  private cursor = 0;
+
+  constructor(transcripts: string[] = FakeSpeechProvider.loadTranscripts()) {
+    this.transcripts = transcripts.length > 0 ? transcripts : DEFAULT_TRANSCRIPTS;
+  }
+
+  static loadTranscripts(): string[] {
+    const transcriptsPath = process.env.STT_FAKE_TRANSCRIPTS;
+    if (!transcriptsPath) return DEFAULT_TRANSCRIPTS;
+
+    const parsed = JSON.parse(fs.readFileSync(transcriptsPath, 'utf8'));
+    if (!Array.isArray(parsed) || !parsed.every(entry => typeof entry === 'string')) {
+      throw new Error('STT_FAKE_TRANSCRIPTS must point to a JSON array of strings');
+    }
+    return parsed;
+  }
+
+  async *transcribe(request: TranscriptionRequest): AsyncIterable<TranscriptEvent> {
+    // Cycle through the transcripts so long sessions keep getting answers
+    const transcript = this.transcripts[this.cursor++ % this.transcripts.length];
+
+    // Emit word by word so clients see partial transcripts
+    let text = '';
+    for (const word of transcript.match(/\S+\s*/g) || []) {
+      if (request.signal?.aborted) return;
+      text += word;
+      yield { text: text.trim(), final: false };
+    }
+
+    yield { text: transcript.trim(), final: true };
+  }
+}
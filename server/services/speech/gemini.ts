@@ -0,0 +1,43 @@
+// Gemini Speech-to-Text Provider
+// Sends the utterance as inline audio and streams the transcript back as it is written
+
+import { GoogleGenAI } from '@google/genai';
+import type { SpeechToTextProvider, TranscriptEvent, TranscriptionRequest } from './types';
+
+const TRANSCRIBE_PROMPT = 'Transcribe the speech in this audio verbatim, in the language it is spoken in. '
+  + 'Reply with the transcript only. If there is no speech, reply with nothing.';
+
+export class GeminiSpeechProvider implements SpeechToTextProvider {
+  readonly name = 'gemini' as const;
+  private client: GoogleGenAI;
+
+  constructor(
+    private model: string = process.env.STT_MODEL || 'gemini-2.0-flash',
+    apiKey: string = process.env.GEMINI_API_KEY!,
+  ) {
+    this.client = new GoogleGenAI({ apiKey });
+  }
+
+  async *transcribe(request: TranscriptionRequest): AsyncIterable<TranscriptEvent> {
+    const responseStream = await this.client.models.generateContentStream({
+      model: this.model,
+      contents: [{
+        role: 'user',
+        parts: [
+          { text: TRANSCRIBE_PROMPT },
+          { inlineData: { mimeType: request.mimeType, data: request.audio.toString('base64') } },
+        ],
+      }],
+      config: { temperature: 0, abortSignal: request.signal },
+    });
+
+    let text = '';
+    for await (const chunk of responseStream) {
+      if (!chunk.text) continue;
+      text += chunk.text;
+      yield { text: text.trim(), final: false };
+    }
+
+    yield { text: text.trim(), final: true };
+  }
+}
@@ -0,0 +1,21 @@
+// Speech-to-Text Provider Registry
+// STT_PROVIDER=gemini|fake selects the provider for voice input
+
+import { FakeSpeechProvider } from './fake';
+import { GeminiSpeechProvider } from './gemini';
+import type { SpeechProviderName, SpeechToTextProvider } from './types';
+
+export * from './types';
+
+const providers: Partial<Record<SpeechProviderName, SpeechToTextProvider>> = {};
+
+export function getSpeechProvider(
+  name: SpeechProviderName = process.env.STT_PROVIDER === 'fake' ? 'fake' : 'gemini'
+): SpeechToTextProvider {
+  if (!providers[name]) {
+    providers[name] = name === 'fake'
+      ? new FakeSpeechProvider()
+      : new GeminiSpeechProvider();
+  }
+  return providers[name]!;
+}
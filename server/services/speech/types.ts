@@ -0,0 +1,23 @@
+// Speech-to-Text Provider Types
+
+export type SpeechProviderName = 'gemini' | 'fake';
+
+export interface TranscriptionRequest {
+  audio: Buffer;
+  mimeType: string;
+  signal?: AbortSignal;
+}
+
+export interface TranscriptEvent {
+  text: string; // Transcript so far, not a delta
+  final: boolean;
+}
+
+export interface SpeechToTextProvider {
+  readonly name: SpeechProviderName;
+
+  /**
+   * Transcribe one utterance, yielding partial transcripts and ending with a single final one
+   */
+  transcribe(request: TranscriptionRequest): AsyncIterable<TranscriptEvent>;
+}
@@ -0,0 +1,114 @@
+// ElevenLabs Text-to-Speech Provider
+// Whole texts go through the REST endpoint; streamed replies through the stream-input WebSocket
+
+import axios from 'axios';
+import WebSocket from 'ws';
+import type {
+  SpeechStream,
+  SpeechStreamHandlers,
+  SynthesisRequest,
+  SynthesisResult,
+  TextToSpeechProvider,
+  Voice,
+} from './types';
+
+const API_BASE = 'https://api.elevenlabs.io/v1/text-to-speech';
+const STREAM_BASE = 'wss://api.elevenlabs.io/v1/text-to-speech';
+const OUTPUT_FORMAT = 'mp3_44100_128';
+const MIME_TYPE = 'audio/mpeg';
+
+const VOICE_SETTINGS = {
+  stability: 0.5,
+  similarity_boost: 0.8,
+  speed: 1.0,
+};
+
+// Premade voices available to every ElevenLabs account
+const VOICES: Voice[] = [
+  { id: '21m00Tcm4TlvDq8ikWAM', name: 'Rachel', description: 'Calm, clear female voice' },
+  { id: 'AZnzlk1XvdvUeBnXmlld', name: 'Domi', description: 'Strong, confident female voice' },
+  { id: 'MF3mGyEYCl7XYWbV9V70', name: 'Elli', description: 'Warm, youthful female voice' },
+  { id: 'ErXwobaYiN019PkySvjV', name: 'Antoni', description: 'Friendly, well-rounded male voice' },
+  { id: 'TxGEqnHWrfWFTfGW9XgX', name: 'Josh', description: 'Young, energetic male voice' },
+  { id: 'pNInz6obpgDQGcFmaJgB', name: 'Adam', description: 'Deep, measured male voice' },
+  { id: 'VR6AewLTigWG4xSOukaG', name: 'Arnold', description: 'Crisp, authoritative male voice' },
+];
+
+export class ElevenLabsTTSProvider implements TextToSpeechProvider {
+  readonly name = 'elevenlabs' as const;
+  readonly voices = VOICES;
+
+  constructor(
+    readonly model: string = process.env.ELEVENLABS_MODEL || 'eleven_turbo_v2_5',
+    private apiKey: string | undefined = process.env.ELEVENLABS_API_KEY,
+  ) {}
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async synthesize(request: SynthesisRequest): Promise<SynthesisResult> {
+    const response = await axios.post(
+      `${API_BASE}/${encodeURIComponent(request.voiceId)}?output_format=${OUTPUT_FORMAT}`,
+      {
+        text: request.text,
+        model_id: this.model,
+        voice_settings: VOICE_SETTINGS,
+      },
+      {
+        headers: {
+          'Accept': MIME_TYPE,
+          'xi-api-key': this.apiKey,
+          'Content-Type': 'application/json',
+        },
+        responseType: 'arraybuffer',
+        signal: request.signal,
+      }
+    );
+    return { data: Buffer.from(response.data), mimeType: MIME_TYPE };
+  }
+
+  openStream(voiceId: string, handlers: SpeechStreamHandlers): SpeechStream {
+    const ws = new WebSocket(
+      `${STREAM_BASE}/${encodeURIComponent(voiceId)}/stream-input?model_id=${this.model}&output_format=${OUTPUT_FORMAT}`
+    );
+
+    const ready = new Promise<void>((resolve, reject) => {
+      ws.once('open', () => {
+        // The first message carries the settings and key; a single space primes the stream
+        ws.send(JSON.stringify({ text: ' ', voice_settings: VOICE_SETTINGS, xi_api_key: this.apiKey }));
+        resolve();
+      });
+      ws.once('error', reject);
+    });
+
+    ws.on('message', (data: Buffer) => {
+      try {
+        const response = JSON.parse(data.toString());
+        if (response.audio) {
+          handlers.onAudio(Buffer.from(response.audio, 'base64'), response.alignment);
+        }
+        if (response.isFinal) {
+          ws.close();
+        }
+      } catch (error) {
+        console.error('[TTS] ElevenLabs message error:', error);
+      }
+    });
+    ws.on('error', error => handlers.onError(error));
+    ws.on('close', () => handlers.onClose());
+
+    const send = (text: string, triggerGeneration: boolean) => {
+      if (ws.readyState !== WebSocket.OPEN) return;
+      ws.send(JSON.stringify(triggerGeneration ? { text, try_trigger_generation: true } : { text }));
+    };
+
+    return {
+      mimeType: MIME_TYPE,
+      ready,
+      write: text => send(text, true),
+      end: () => send('', false), // An empty text ends the input; the final message follows
+      cancel: () => ws.close(),
+    };
+  }
+}
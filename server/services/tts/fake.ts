@@ -0,0 +1,115 @@
+// Fake Text-to-Speech Provider
+// Offline provider for development and tests: renders text as a sine tone (or silence) as long
+// as the text would take to say, as 16 kHz mono WAV
+
+import type {
+  SpeechStream,
+  SpeechStreamHandlers,
+  SynthesisRequest,
+  SynthesisResult,
+  TextToSpeechProvider,
+  Voice,
+} from './types';
+
+const SAMPLE_RATE = 16000;
+const CHARS_PER_SECOND = 15; // About 150 words per minute
+const AMPLITUDE = 0.2;
+const MIME_TYPE = 'audio/wav';
+
+const FREQUENCIES: Record<string, number> = {
+  'tone-low': 220,
+  'tone-mid': 330,
+  'tone-high': 440,
+  'silence': 0,
+};
+
+const VOICES: Voice[] = [
+  { id: 'tone-low', name: 'Low tone', description: '220 Hz sine tone' },
+  { id: 'tone-mid', name: 'Middle tone', description: '330 Hz sine tone' },
+  { id: 'tone-high', name: 'High tone', description: '440 Hz sine tone' },
+  { id: 'silence', name: 'Silence', description: 'No sound' },
+];
+
+/**
+ * 44-byte header of a 16-bit mono PCM WAV file. Streams do not know their length and use the maximum.
+ */
+function wavHeader(dataBytes: number = 0xffffffff): Buffer {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'latin1');
+  header.writeUInt32LE(Math.min(36 + dataBytes, 0xffffffff), 4);
+  header.write('WAVE', 8, 'latin1');
+  header.write('fmt ', 12, 'latin1');
+  header.writeUInt32LE(16, 16); // fmt chunk size
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // Mono
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(SAMPLE_RATE * 2, 28); // Byte rate
+  header.writeUInt16LE(2, 32); // Block align
+  header.writeUInt16LE(16, 34); // Bits per sample
+  header.write('data', 36, 'latin1');
+  header.writeUInt32LE(dataBytes, 40);
+  return header;
+}
+
+export class FakeTTSProvider implements TextToSpeechProvider {
+  readonly name = 'fake' as const;
+  readonly model = 'fake-tone';
+  readonly voices = VOICES;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async synthesize(request: SynthesisRequest): Promise<SynthesisResult> {
+    const samples = this.render(request.text, request.voiceId, 0);
+    return { data: Buffer.concat([wavHeader(samples.length), samples]), mimeType: MIME_TYPE };
+  }
+
+  openStream(voiceId: string, handlers: SpeechStreamHandlers): SpeechStream {
+    let sampleOffset = 0;
+    let headerSent = false;
+    let closed = false;
+    let cancelled = false;
+
+    // Handlers are called asynchronously, as a network provider would
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      setImmediate(() => handlers.onClose());
+    };
+
+    return {
+      mimeType: MIME_TYPE,
+      ready: Promise.resolve(),
+      write: text => {
+        if (closed) return;
+        const samples = this.render(text, voiceId, sampleOffset);
+        sampleOffset += samples.length / 2;
+        const audio = headerSent ? samples : Buffer.concat([wavHeader(), samples]);
+        headerSent = true;
+        setImmediate(() => {
+          if (!cancelled) handlers.onAudio(audio);
+        });
+      },
+      end: close,
+      cancel: () => {
+        cancelled = true;
+        close();
+      },
+    };
+  }
+
+  /**
+   * 16-bit samples for the time the text takes to say, continuing the tone's phase from an earlier chunk
+   */
+  private render(text: string, voiceId: string, sampleOffset: number): Buffer {
+    const sampleCount = Math.round((text.length / CHARS_PER_SECOND) * SAMPLE_RATE);
+    const frequency = FREQUENCIES[voiceId] ?? 0;
+    const samples = Buffer.alloc(sampleCount * 2);
+    for (let i = 0; i < sampleCount; i++) {
+      const value = Math.sin((2 * Math.PI * frequency * (sampleOffset + i)) / SAMPLE_RATE) * AMPLITUDE;
+      samples.writeInt16LE(Math.round(value * 32767), i * 2);
+    }
+    return samples;
+  }
+}
@@ -0,0 +1,74 @@
+// Text-to-Speech Provider Registry
+// TTS_PROVIDER=elevenlabs|fake selects the provider for spoken replies. Each personality speaks with
+// its default voice; tiers with voice selection may pick another from the provider's catalog.
+
+import { getPersonalityVoiceId } from '../../config/voices';
+import { AI_PERSONALITIES } from '../../config/personalities';
+import type { AIPersonality } from '../../config/webhooks';
+import { getTierLimits } from '../../utils/solana';
+import { ElevenLabsTTSProvider } from './elevenlabs';
+import { FakeTTSProvider } from './fake';
+import type { TextToSpeechProvider, TTSProviderName, Voice } from './types';
+
+export * from './types';
+
+const providers: Partial<Record<TTSProviderName, TextToSpeechProvider>> = {};
+
+export function getTTSProvider(
+  name: TTSProviderName = process.env.TTS_PROVIDER === 'fake' ? 'fake' : 'elevenlabs'
+): TextToSpeechProvider {
+  if (!providers[name]) {
+    providers[name] = name === 'fake'
+      ? new FakeTTSProvider()
+      : new ElevenLabsTTSProvider();
+  }
+  return providers[name]!;
+}
+
+export interface VoiceCatalog {
+  provider: TTSProviderName;
+  voices: Voice[];
+  defaults: Record<AIPersonality, string>;
+  canChoose: boolean; // Whether the session's tier may pick a voice other than the default
+}
+
+export function getVoiceCatalog(tier: string, provider: TextToSpeechProvider = getTTSProvider()): VoiceCatalog {
+  return {
+    provider: provider.name,
+    voices: provider.voices,
+    defaults: Object.fromEntries(
+      AI_PERSONALITIES.map(personality => [personality, getPersonalityVoiceId(provider.name, personality)])
+    ) as Record<AIPersonality, string>,
+    canChoose: getTierLimits(tier).voiceSelection,
+  };
+}
+
+/**
+ * The voice to speak with: the requested one when the tier allows it, otherwise the personality's default
+ */
+export function resolveVoice(
+  tier: string,
+  personality: AIPersonality,
+  requestedVoiceId?: unknown,
+  provider: TextToSpeechProvider = getTTSProvider()
+): { voiceId: string } | { status: number; error: string } {
+  const defaultVoiceId = getPersonalityVoiceId(provider.name, personality);
+  if (requestedVoiceId === undefined || requestedVoiceId === null || requestedVoiceId === defaultVoiceId) {
+    return { voiceId: defaultVoiceId };
+  }
+
+  if (typeof requestedVoiceId !== 'string' || !provider.voices.some(voice => voice.id === requestedVoiceId)) {
+    return { status: 400, error: 'Unknown voice' };
+  }
+  if (!getTierLimits(tier).voiceSelection) {
+    return { status: 403, error: 'Choosing a voice requires the Pro tier or higher' };
+  }
+  return { voiceId: requestedVoiceId };
+}
+
+/**
+ * What is recorded with stored audio in audioCache.voiceSettings
+ */
+export function getVoiceSettings(voiceId: string, provider: TextToSpeechProvider = getTTSProvider()): Record<string, unknown> {
+  return { provider: provider.name, model: provider.model, voiceId };
+}
@@ -0,0 +1,46 @@
+// Text-to-Speech Provider Types
+
+export type TTSProviderName = 'elevenlabs' | 'fake';
+
+export interface Voice {
+  id: string;
+  name: string;
+  description: string;
+}
+
+export interface SynthesisRequest {
+  text: string;
+  voiceId: string;
+  signal?: AbortSignal;
+}
+
+export interface SynthesisResult {
+  data: Buffer;
+  mimeType: string;
+}
+
+export interface SpeechStreamHandlers {
+  onAudio(audio: Buffer, alignment?: unknown): void;
+  onError(error: Error): void;
+  onClose(): void; // After the last audio, a cancel or an error
+}
+
+/**
+ * Speech generated while its text is still being written, as for a streaming LLM reply
+ */
+export interface SpeechStream {
+  readonly mimeType: string;
+  readonly ready: Promise<void>; // Resolves once text can be written; rejects when the connection fails
+  write(text: string): void;
+  end(): void; // No more text: the rest of the audio follows, then onClose
+  cancel(): void; // Stop generating now; onClose follows
+}
+
+export interface TextToSpeechProvider {
+  readonly name: TTSProviderName;
+  readonly model: string;
+  readonly voices: Voice[];
+  isConfigured(): boolean;
+  synthesize(request: SynthesisRequest): Promise<SynthesisResult>;
+  openStream(voiceId: string, handlers: SpeechStreamHandlers): SpeechStream;
+}
@@ -0,0 +1,139 @@
+// URL ingestion tests against a local HTTP fixture server.
+// Run with `npm test`. Limits are read when the modules load, so they are set before importing them.
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+process.env.URL_ALLOW_PRIVATE_ADDRESSES = '127.0.0.1'; // The fixture server only
+// 127.0.0.2 and ::1 are allowed hosts, so redirects to them are refused by the private address check
+process.env.URL_ALLOWLIST = '127.0.0.1,127.0.0.2,[::1],allowed.test,8.8.8.8';
+process.env.URL_DENYLIST = '8.8.8.8,denied.allowed.test';
+process.env.URL_FETCH_TIMEOUT_MS = '500';
+process.env.URL_MAX_RESPONSE_BYTES = String(64 * 1024);
+process.env.DATABASE_URL ??= 'postgres://test@localhost/test'; // Storage is imported but never queried
+
+const { UrlIngestionService, readableLinks } = await import('./urlIngestion');
+const { isDomainAllowed } = await import('../config/urlIngestion');
+
+const PAGE = '<html><head><title>Fixture page</title></head><body><article><p>Hello from the fixture server.</p></article></body></html>';
+
+let server: http.Server;
+let baseUrl: string;
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    const port = (server.address() as AddressInfo).port;
+    switch (req.url) {
+      case '/page':
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+        res.end(PAGE);
+        break;
+      case '/redirect':
+        res.writeHead(302, { Location: '/page' });
+        res.end();
+        break;
+      case '/redirect-private':
+        // Same server, but reached through a private address that is not allowed
+        res.writeHead(302, { Location: `http://127.0.0.2:${port}/page` });
+        res.end();
+        break;
+      case '/redirect-ipv6':
+        res.writeHead(302, { Location: `http://[::1]:${port}/page` });
+        res.end();
+        break;
+      case '/large':
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        res.end('a'.repeat(256 * 1024));
+        break;
+      case '/image':
+        res.writeHead(200, { 'Content-Type': 'image/png' });
+        res.end(Buffer.alloc(16));
+        break;
+      case '/slow':
+        // Never answers; the client has to give up
+        break;
+      default:
+        res.writeHead(404);
+        res.end();
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+describe('UrlIngestionService.fetchPage', () => {
+  it('reads an allowed page', async () => {
+    const page = await UrlIngestionService.fetchPage(`${baseUrl}/page`);
+    assert.equal(page.title, 'Fixture page');
+    assert.match(page.text, /Hello from the fixture server/);
+  });
+
+  it('follows redirects to allowed destinations', async () => {
+    const page = await UrlIngestionService.fetchPage(`${baseUrl}/redirect`);
+    assert.equal(page.finalUrl, `${baseUrl}/page`);
+  });
+
+  it('refuses redirects to private addresses', async () => {
+    await assert.rejects(
+      UrlIngestionService.fetchPage(`${baseUrl}/redirect-private`),
+      /private address/
+    );
+  });
+
+  it('refuses redirects to private IPv6 addresses', async () => {
+    await assert.rejects(
+      UrlIngestionService.fetchPage(`${baseUrl}/redirect-ipv6`),
+      /private address/
+    );
+  });
+
+  it('stops reading oversized bodies', async () => {
+    await assert.rejects(UrlIngestionService.fetchPage(`${baseUrl}/large`), /too large/);
+  });
+
+  it('rejects unreadable content types', async () => {
+    await assert.rejects(UrlIngestionService.fetchPage(`${baseUrl}/image`), /Unsupported content type image\/png/);
+  });
+
+  it('gives up on slow sites', async () => {
+    await assert.rejects(UrlIngestionService.fetchPage(`${baseUrl}/slow`), /took too long/);
+  });
+});
+
+describe('host allow and deny lists', () => {
+  it('apply to literal IPs', async () => {
+    assert.equal(isDomainAllowed('127.0.0.1'), true);
+    assert.equal(isDomainAllowed('1.1.1.1'), false); // Not on the allow list
+    assert.equal(isDomainAllowed('8.8.8.8'), false); // Denied, although allowed
+    await assert.rejects(UrlIngestionService.fetchPage('http://1.1.1.1/'), /not on the allowed list/);
+    await assert.rejects(UrlIngestionService.fetchPage('http://8.8.8.8/'), /not on the allowed list/);
+    await assert.rejects(UrlIngestionService.fetchPage('http://10.0.0.1/'), /not on the allowed list/);
+  });
+
+  it('match IPv6 addresses listed in brackets', () => {
+    assert.equal(isDomainAllowed('::1'), true);
+    assert.equal(isDomainAllowed('::2'), false);
+  });
+
+  it('match domains with their subdomains, deny list first', async () => {
+    assert.equal(isDomainAllowed('allowed.test'), true);
+    assert.equal(isDomainAllowed('www.allowed.test'), true);
+    assert.equal(isDomainAllowed('denied.allowed.test'), false);
+    assert.equal(isDomainAllowed('other.test'), false);
+    await assert.rejects(UrlIngestionService.fetchPage('https://other.test/'), /not on the allowed list/);
+  });
+});
+
+describe('readableLinks', () => {
+  it('keeps valid links within the per-message limits', () => {
+    const links = ['example.com', `https://example.com/${'a'.repeat(3000)}`, 'http://[bad', 'a.test', 'b.test', 'c.test'];
+    assert.deepEqual(readableLinks(links), ['example.com', 'a.test', 'b.test']);
+  });
+});
@@ -0,0 +1,320 @@
+// URL Ingestion Service
+// Fetches links shared in chat and turns them into readable text for the prompt.
+// Every hop is checked against the host lists, and sockets may only connect to public addresses.
+
+import axios from 'axios';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import {
+  MAX_URLS_PER_MESSAGE,
+  URL_FETCH_TIMEOUT_MS,
+  URL_MAX_LENGTH,
+  URL_MAX_REDIRECTS,
+  URL_MAX_RESPONSE_BYTES,
+  isDomainAllowed,
+  isPrivateAddressAllowed,
+} from '../config/urlIngestion';
+import { DocumentExtractionService, chunkText, selectRelevantChunks } from './documentExtraction';
+import type { LLMPart } from './llm';
+
+export interface FetchedPage {
+  url: string;
+  finalUrl: string;
+  title?: string;
+  text: string;
+}
+
+// Excerpt budget shared by all links in one message
+const URL_TOKEN_BUDGET = 4000;
+const PAGE_CACHE_SIZE = 100;
+const PAGE_CACHE_TTL_MS = 10 * 60 * 1000;
+
+const READABLE_CONTENT_TYPES = ['text/html', 'application/xhtml+xml', 'text/plain', 'application/pdf'];
+
+// Loopback, private, link-local, carrier-grade NAT, multicast and reserved ranges
+const blockedAddresses = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+].forEach(([address, prefix]) => blockedAddresses.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['::ffff:0:0', 96], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32],
+  ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+].forEach(([address, prefix]) => blockedAddresses.addSubnet(address as string, prefix as number, 'ipv6'));
+
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return !blockedAddresses.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * DNS lookup for outgoing sockets that refuses to connect to non-public addresses.
+ * Checking at connect time also covers redirects and DNS rebinding.
+ */
+const safeLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      return callback(error, '', 0);
+    }
+
+    const blocked = addresses.some(({ address }) => !isPublicAddress(address) && !isPrivateAddressAllowed(address));
+    if (blocked || addresses.length === 0) {
+      return callback(new Error(`Refusing to connect to a private address for ${hostname}`), '', 0);
+    }
+
+    if ((options as dns.LookupOptions).all) {
+      return (callback as unknown as (err: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+    }
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const httpAgent = new http.Agent({ lookup: safeLookup });
+const httpsAgent = new https.Agent({ lookup: safeLookup });
+
+/**
+ * Parse a link as typed in chat, adding https:// when the scheme was left out
+ */
+export function normalizeUrl(raw: string): URL {
+  const trimmed = raw.trim();
+  if (trimmed.length > URL_MAX_LENGTH) {
+    throw new Error('Link is too long');
+  }
+
+  const withScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+  let url: URL;
+  try {
+    url = new URL(withScheme);
+  } catch {
+    throw new Error('Not a valid link');
+  }
+
+  url.hash = '';
+  return url;
+}
+
+/**
+ * Links of a stored message that may be read again, within the limits the message route enforces.
+ * Imported messages and regenerations go through this, since their links were not checked on send.
+ */
+export function readableLinks(links: string[]): string[] {
+  return links
+    .filter(link => {
+      try {
+        normalizeUrl(link);
+        return true;
+      } catch {
+        return false;
+      }
+    })
+    .slice(0, MAX_URLS_PER_MESSAGE);
+}
+
+/**
+ * Reject schemes, credentials, ports, domains and literal IPs that must never be fetched
+ */
+function assertFetchable(url: URL): void {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Unsupported link type ${url.protocol}`);
+  }
+  if (url.username || url.password) {
+    throw new Error('Links with credentials are not fetched');
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (!isDomainAllowed(hostname)) {
+    throw new Error(`${hostname} is not on the allowed list of sites`);
+  }
+  if (net.isIP(hostname) && !isPublicAddress(hostname) && !isPrivateAddressAllowed(hostname)) {
+    throw new Error('Links to private addresses are not fetched');
+  }
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—',
+  hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', copy: '©', reg: '®', trade: '™',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const codePoint = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : '';
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+const stripTags = (html: string): string => html.replace(/<[^>]+>/g, ' ');
+
+/**
+ * Reduce an HTML page to its readable text: drop scripts and page chrome,
+ * prefer the <article> or <main> element, and keep paragraph breaks
+ */
+export function extractReadableText(html: string): { title?: string; text: string } {
+  const titleMatch = html.match(/<meta[^>]+property=["']og:title["'][^>]+content=["']([^"']*)["']/i)
+    || html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  const title = titleMatch ? decodeEntities(stripTags(titleMatch[1])).replace(/\s+/g, ' ').trim() : undefined;
+
+  let body = html
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<(head|script|style|noscript|template|svg|iframe|canvas|object)\b[\s\S]*?<\/\1>/gi, ' ');
+
+  const main = body.match(/<article\b[\s\S]*<\/article>/i) || body.match(/<main\b[\s\S]*<\/main>/i);
+  if (main && stripTags(main[0]).trim().length > 200) {
+    body = main[0];
+  } else {
+    body = body.replace(/<(nav|header|footer|aside|form)\b[\s\S]*?<\/\1>/gi, ' ');
+  }
+
+  const text = decodeEntities(
+    stripTags(
+      body
+        .replace(/<li\b[^>]*>/gi, '\n- ')
+        .replace(/<(br|hr)\b[^>]*>/gi, '\n')
+        .replace(/<\/?(p|div|section|article|main|h[1-6]|ul|ol|tr|table|blockquote|pre|dd|dt|figcaption)\b[^>]*>/gi, '\n\n')
+    )
+  )
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return { title: title || undefined, text };
+}
+
+function decodeBody(data: Buffer, contentType: string): string {
+  const charset = contentType.match(/charset=["']?([\w-]+)/i)?.[1];
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(data);
+  } catch {
+    return data.toString('utf8');
+  }
+}
+
+export class UrlIngestionService {
+  private static pageCache: Map<string, { page: FetchedPage; fetchedAt: number }> = new Map();
+
+  /**
+   * Fetch a link and return its readable text, following redirects only to allowed destinations
+   */
+  static async fetchPage(rawUrl: string): Promise<FetchedPage> {
+    const url = normalizeUrl(rawUrl);
+    const cacheKey = url.toString();
+
+    const cached = this.pageCache.get(cacheKey);
+    if (cached && Date.now() - cached.fetchedAt < PAGE_CACHE_TTL_MS) {
+      return cached.page;
+    }
+
+    // One deadline for the whole redirect chain
+    const signal = AbortSignal.timeout(URL_FETCH_TIMEOUT_MS);
+    let current = url;
+
+    for (let redirects = 0; ; redirects++) {
+      assertFetchable(current);
+
+      const response = await axios.get<ArrayBuffer>(current.toString(), {
+        responseType: 'arraybuffer',
+        timeout: URL_FETCH_TIMEOUT_MS,
+        signal,
+        maxRedirects: 0,
+        maxContentLength: URL_MAX_RESPONSE_BYTES,
+        proxy: false,
+        httpAgent,
+        httpsAgent,
+        validateStatus: () => true,
+        headers: {
+          'User-Agent': 'AUtistic-AI-LinkReader/1.0',
+          'Accept': 'text/html,application/xhtml+xml,text/plain;q=0.9,application/pdf;q=0.8',
+        },
+      }).catch((error) => {
+        if (axios.isCancel(error) || error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+          throw new Error('The site took too long to respond');
+        }
+        if (/maxContentLength/.test(error.message)) {
+          throw new Error('The page is too large to read');
+        }
+        throw new Error(error.cause?.message || error.message || 'The site could not be reached');
+      });
+
+      const location = response.headers['location'];
+      if (response.status >= 300 && response.status < 400 && typeof location === 'string') {
+        if (redirects >= URL_MAX_REDIRECTS) {
+          throw new Error('Too many redirects');
+        }
+        current = new URL(location, current);
+        current.hash = '';
+        continue;
+      }
+
+      if (response.status >= 400) {
+        throw new Error(`The site responded with status ${response.status}`);
+      }
+
+      const contentType = String(response.headers['content-type'] || 'text/html').toLowerCase();
+      const mimeType = contentType.split(';')[0].trim();
+      if (!READABLE_CONTENT_TYPES.includes(mimeType)) {
+        throw new Error(`Unsupported content type ${mimeType}`);
+      }
+
+      const data = Buffer.from(response.data);
+      let title: string | undefined;
+      let text: string;
+
+      if (mimeType === 'application/pdf') {
+        text = await DocumentExtractionService.extractText(data, mimeType);
+      } else if (mimeType === 'text/plain') {
+        text = decodeBody(data, contentType);
+      } else {
+        ({ title, text } = extractReadableText(decodeBody(data, contentType)));
+      }
+
+      const page: FetchedPage = { url: cacheKey, finalUrl: current.toString(), title, text };
+      this.cachePage(cacheKey, page);
+      return page;
+    }
+  }
+
+  /**
+   * Fetch every link and return the excerpts most relevant to the query as model parts.
+   * Links that cannot be read become a short note so the model can tell the user.
+   */
+  static async toParts(urls: string[], query: string): Promise<LLMPart[]> {
+    const uniqueUrls = Array.from(new Set(urls));
+    const budgetPerPage = Math.floor(URL_TOKEN_BUDGET / Math.max(1, uniqueUrls.length));
+
+    const results = await Promise.allSettled(uniqueUrls.map(url => this.fetchPage(url)));
+
+    return results.map((result, index): LLMPart => {
+      if (result.status === 'rejected') {
+        const reason = result.reason instanceof Error ? result.reason.message : String(result.reason);
+        console.warn(`[URL] Could not read ${uniqueUrls[index]}:`, reason);
+        return { text: `[Linked page ${uniqueUrls[index]} could not be read: ${reason}]` };
+      }
+
+      const page = result.value;
+      const chunks = chunkText(page.text);
+      if (chunks.length === 0) {
+        return { text: `[Linked page ${page.finalUrl} has no readable text]` };
+      }
+
+      const excerpts = selectRelevantChunks(chunks, query, budgetPerPage);
+      const label = page.title ? `"${page.title}" (${page.finalUrl})` : page.finalUrl;
+      return { text: `Linked page ${label}:\n\n${excerpts.join('\n\n[...]\n\n')}` };
+    });
+  }
+
+  private static cachePage(key: string, page: FetchedPage): void {
+    if (this.pageCache.size >= PAGE_CACHE_SIZE) {
+      const oldestKey = this.pageCache.keys().next().value;
+      if (oldestKey) this.pageCache.delete(oldestKey);
+    }
+    this.pageCache.set(key, { page, fetchedAt: Date.now() });
+  }
+}
@@ -0,0 +1,104 @@
+// Voice WebSocket Protocol
+// JSON text frames on /ws/voice. Every frame carries the protocol version `v`; clients ask for a
+// version with the `v` query parameter of the upgrade. Bump the version for incompatible changes.
+
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import type { RawData } from 'ws';
+import { MAX_VOICE_TEXT_LENGTH } from '../config/voices';
+
+export const VOICE_PROTOCOL_VERSION = 1;
+export const SUPPORTED_VOICE_PROTOCOL_VERSIONS: readonly number[] = [VOICE_PROTOCOL_VERSION];
+
+const clientMessageSchema = z.discriminatedUnion('type', [
+  // Base64 audio chunk from the microphone; chunks are buffered until `stop`.
+  // Speech while the persona has the turn interrupts it (barge-in).
+  z.object({
+    v: z.number(),
+    type: z.literal('audio_input'),
+    audio: z.string().min(1),
+    mimeType: z.string().regex(/^audio\/[\w.+-]+/).optional(), // Defaults to audio/webm, as MediaRecorder records
+  }),
+  // Text to speak back, for clients without a microphone
+  z.object({ v: z.number(), type: z.literal('text_input'), text: z.string().min(1).max(MAX_VOICE_TEXT_LENGTH) }),
+  // The user stopped speaking: transcribe the buffered audio and answer it
+  z.object({ v: z.number(), type: z.literal('stop') }),
+]);
+
+export type VoiceClientMessage = z.infer<typeof clientMessageSchema>;
+
+export type VoiceErrorCode =
+  | 'invalid_message'
+  | 'unsupported_version'
+  | 'audio_too_large'
+  | 'transcription_failed'
+  | 'reply_failed'
+  | 'tts_unavailable'
+  | 'session_failed';
+
+// Listening: the user has the turn. Thinking: the utterance is being transcribed and answered.
+// Speaking: the reply is streaming to the client.
+export type VoiceTurnState = 'listening' | 'thinking' | 'speaking';
+
+export type VoiceSpeaker = 'user' | 'assistant';
+
+type VoiceServerPayload =
+  | { type: 'voice_ready'; conversationId: string; personality: string }
+  | { type: 'audio_output'; audio: string; alignment?: unknown }
+  | { type: 'audio_processing'; message: string }
+  | { type: 'transcript'; text: string; final: boolean } // What the user said, so far
+  | { type: 'reply_text'; text: string; final: boolean } // What the persona is saying, so far
+  | { type: 'turn_start'; speaker: VoiceSpeaker; state: VoiceTurnState }
+  // An interrupted assistant turn was cut off by barge-in: stop playback and drop queued audio
+  | { type: 'turn_end'; speaker: VoiceSpeaker; state: VoiceTurnState; interrupted: boolean }
+  | { type: 'message_saved'; role: 'user' | 'assistant'; messageId: string } // A turn was added to the conversation
+  | {
+      type: 'quota_update';
+      inputSeconds: number; // Spoken by the user on this socket
+      outputSeconds: number; // Spoken back on this socket
+      remainingSeconds: number; // Left in the tier's allowance for this period
+      limitSeconds: number;
+      resetTime: string;
+    }
+  | { type: 'quota_warning'; remainingSeconds: number }
+  | { type: 'quota_exhausted'; resetTime: string } // The server closes the socket after this
+  | { type: 'error'; code: VoiceErrorCode; message: string };
+
+export type VoiceServerMessage = VoiceServerPayload & { v: number };
+
+export function isSupportedVoiceProtocol(version: number): boolean {
+  return SUPPORTED_VOICE_PROTOCOL_VERSIONS.includes(version);
+}
+
+export function encodeServerMessage(payload: VoiceServerPayload): string {
+  const message: VoiceServerMessage = { v: VOICE_PROTOCOL_VERSION, ...payload };
+  return JSON.stringify(message);
+}
+
+/**
+ * Validate a frame from the client. Frames of another protocol version are rejected
+ * rather than guessed at.
+ */
+export function parseClientMessage(
+  data: RawData
+): { message: VoiceClientMessage } | { error: { code: VoiceErrorCode; message: string } } {
+  let json: unknown;
+  try {
+    json = JSON.parse(data.toString());
+  } catch {
+    return { error: { code: 'invalid_message', message: 'Frames must be JSON' } };
+  }
+
+  const version = (json as { v?: unknown } | null)?.v;
+  if (typeof version !== 'number' || !isSupportedVoiceProtocol(version)) {
+    return {
+      error: { code: 'unsupported_version', message: `Protocol version ${VOICE_PROTOCOL_VERSION} is required` },
+    };
+  }
+
+  const result = clientMessageSchema.safeParse(json);
+  if (!result.success) {
+    return { error: { code: 'invalid_message', message: fromZodError(result.error, { prefix: 'Invalid voice message' }).message } };
+  }
+  return { message: result.data };
+}
@@ -1,174 +1,360 @@
 // Real-time Voice Streaming Service
-// Integrates ElevenLabs TTS WebSocket with Gemini Live API for bidirectional audio conversations
+// Closes the voice loop on /ws/voice: the user's utterance is transcribed by the speech-to-text
+// provider, answered by the persona's LLM and spoken back by the text-to-speech provider.
+// Each turn is saved to the conversation's active branch, so text chat can continue where voice left off.
+// Speech from the user while the persona is thinking or speaking interrupts the reply (barge-in).
 
 import WebSocket from 'ws';
-import { GoogleGenAI } from '@google/genai';
 import { storage } from '../storage';
-import { generateSecureToken } from '../utils/fingerprint';
+import { getPersonalitySystemPrompt } from '../config/personalities';
+import type { AIPersonality } from '../config/webhooks';
+import { MemoryBankService } from './memoryBank';
+import { resolveLLM } from './llm';
+import { contextAssembler } from './contextAssembler';
+import { MessageTreeService } from './messageTree';
+import { ConversationSummaryService } from './conversationSummary';
+import { getSpeechProvider } from './speech';
+import { getTTSProvider, getVoiceSettings, type SpeechStream } from './tts';
+import { AudioStorageService } from './audioStorage';
+import { chargeVoiceSeconds, getVoiceQuota } from '../utils/rateLimit';
+import { billableSeconds, getAudioDurationSeconds, speechBillableSeconds } from '../utils/audioDuration';
+import { pcmLevel } from '../utils/audioLevel';
+import {
+  encodeServerMessage,
+  parseClientMessage,
+  type VoiceClientMessage,
+  type VoiceTurnState,
+} from './voiceProtocol';
+import type { Message } from '@shared/schema';
+
+const DEFAULT_AUDIO_MIME_TYPE = 'audio/webm';
+const MAX_UTTERANCE_BYTES = 10 * 1024 * 1024; // Inline audio limit, with headroom
+
+const QUOTA_UPDATE_INTERVAL_MS = 10_000;
+const QUOTA_WARNING_SECONDS = 60;
+
+// RMS level, as a fraction of full scale, above which raw PCM counts as speech for barge-in
+const BARGE_IN_LEVEL = parseFloat(process.env.VOICE_BARGE_IN_LEVEL || '0.02');
+
+const VOICE_STYLE_INSTRUCTION = 'Your replies are spoken aloud. Keep them short and conversational, without markdown, lists or links.';
+
+// One spoken reply on its own TTS stream
+interface SpeechOutput {
+  stream: SpeechStream;
+  text: string; // Text sent so far
+  audioChunks: Buffer[];
+  // The saved reply the audio belongs to. Barge-in can close the stream before the reply is saved,
+  // so the audio waits for it; undefined when nothing was saved
+  messageId: Promise<string | undefined>;
+  setMessageId: (messageId: string | undefined) => void;
+  interrupted: boolean; // Cut off: later audio is dropped and errors are expected
+}
 
 interface VoiceStreamingSession {
+  id: string; // Stream ID, unique per socket
   sessionId: string;
   conversationId: string;
-  elevenLabsWs?: WebSocket;
-  geminiSession?: any;
+  personality: AIPersonality;
+  voiceId: string;
+  tier?: string;
+  systemInstruction: string;
+  speechOutputs: Set<SpeechOutput>; // Replies being spoken
+  audioChunks: Buffer[]; // The utterance being recorded
+  audioBytes: number;
+  audioMimeType: string;
+  utteranceStartedAt?: number;
+  turnState: VoiceTurnState;
+  generating: boolean; // A reply is streaming from the LLM
+  inputSeconds: number; // Audio charged on this socket, in and out
+  outputSeconds: number;
+  quotaWarned: boolean;
+  quotaTimer?: NodeJS.Timeout;
+  ready: Promise<void>; // Client frames wait for the persona and the first quota check
+  turn: Promise<void>; // Utterances are answered one at a time, in order
+  abortController: AbortController; // Cancels the latest turn; replaced for each utterance
   isActive: boolean;
   startTime: number;
 }
 
 export class VoiceStreamingService {
   private activeSessions: Map<string, VoiceStreamingSession> = new Map();
-  private geminiClient: GoogleGenAI;
 
-  constructor() {
-    this.geminiClient = new GoogleGenAI({ 
-      apiKey: process.env.GEMINI_API_KEY! 
-    });
+  private send(clientWs: WebSocket, payload: Parameters<typeof encodeServerMessage>[0]): void {
+    if (clientWs.readyState === WebSocket.OPEN) {
+      clientWs.send(encodeServerMessage(payload));
+    }
   }
 
   /**
-   * Initialize bidirectional voice streaming session
-   * Combines ElevenLabs TTS output with Gemini audio understanding
+   * Initialize bidirectional voice streaming session.
+   * The caller has already authenticated the session and checked the conversation and persona.
    */
   async initializeVoiceSession(
     clientWs: WebSocket,
     sessionId: string,
     conversationId: string,
-    personality: string
+    personality: AIPersonality,
+    voiceId: string
   ): Promise<void> {
     const streamSessionId = `${sessionId}-${Date.now()}`;
     
     console.log(`[Voice] Initializing voice session: ${streamSessionId}`);
 
+    let markReady!: () => void;
+
     const voiceSession: VoiceStreamingSession = {
-      sessionId: streamSessionId,
+      id: streamSessionId,
+      sessionId,
       conversationId,
+      personality,
+      voiceId,
+      systemInstruction: getPersonalitySystemPrompt(personality),
+      speechOutputs: new Set(),
+      audioChunks: [],
+      audioBytes: 0,
+      audioMimeType: DEFAULT_AUDIO_MIME_TYPE,
+      turnState: 'listening',
+      generating: false,
+      inputSeconds: 0,
+      outputSeconds: 0,
+      quotaWarned: false,
+      ready: new Promise<void>(resolve => { markReady = resolve; }),
+      turn: Promise.resolve(),
+      abortController: new AbortController(),
       isActive: true,
       startTime: Date.now(),
     };
 
     this.activeSessions.set(streamSessionId, voiceSession);
 
+    // Handlers go in first, so frames sent while the persona loads are queued
+    // and a disconnect during setup still cleans up
+    this.setupClientHandlers(clientWs, voiceSession);
+
     try {
-      // Initialize ElevenLabs WebSocket for TTS output
-      await this.initializeElevenLabs(clientWs, voiceSession);
+      await this.initializePersona(voiceSession);
+
+      // Sessions cannot start without voice allowance left
+      if (!(await this.checkQuota(clientWs, voiceSession))) return;
 
-      // Initialize Gemini Live API for audio input understanding
-      await this.initializeGeminiLive(clientWs, voiceSession, personality);
+      // The client may have gone away while the persona loaded
+      if (!voiceSession.isActive || clientWs.readyState !== WebSocket.OPEN) {
+        this.cleanupSession(streamSessionId);
+        return;
+      }
 
-      // Set up client message handlers
-      this.setupClientHandlers(clientWs, voiceSession);
+      this.send(clientWs, {
+        type: 'voice_ready',
+        conversationId,
+        personality,
+      });
 
+      voiceSession.quotaTimer = setInterval(() => {
+        this.checkQuota(clientWs, voiceSession)
+          .catch(error => console.error('[Voice] Quota check failed:', error));
+      }, QUOTA_UPDATE_INTERVAL_MS);
     } catch (error) {
       console.error('[Voice] Failed to initialize voice session:', error);
-      clientWs.send(JSON.stringify({ 
-        type: 'error', 
-        message: 'Failed to initialize voice streaming' 
-      }));
+      this.send(clientWs, {
+        type: 'error',
+        code: 'session_failed',
+        message: 'Failed to initialize voice streaming',
+      });
       this.cleanupSession(streamSessionId);
+      clientWs.close(1011, 'Voice session failed');
+    } finally {
+      markReady();
     }
   }
 
   /**
-   * Initialize ElevenLabs WebSocket for real-time TTS
+   * Send the session's usage and the allowance left, counting reply audio that is still being
+   * spoken. Warns once when little is left and ends the session when nothing is.
+   * Returns whether the session may continue.
    */
-  private async initializeElevenLabs(
-    clientWs: WebSocket,
-    voiceSession: VoiceStreamingSession
-  ): Promise<void> {
-    const voiceId = process.env.ELEVENLABS_VOICE_ID || 'default_voice_id';
-    const modelId = 'eleven_turbo_v2_5';
-    
-    const elevenLabsUrl = `wss://api.elevenlabs.io/v1/text-to-speech/${voiceId}/stream-input?model_id=${modelId}`;
-    
-    const elevenLabsWs = new WebSocket(elevenLabsUrl);
-    voiceSession.elevenLabsWs = elevenLabsWs;
-
-    elevenLabsWs.on('open', () => {
-      console.log('[Voice] ElevenLabs WebSocket connected');
-      
-      // Initialize with voice settings
-      elevenLabsWs.send(JSON.stringify({
-        text: ' ',
-        voice_settings: {
-          stability: 0.5,
-          similarity_boost: 0.8,
-          speed: 1.0,
-        },
-        xi_api_key: process.env.ELEVENLABS_API_KEY,
-      }));
+  private async checkQuota(clientWs: WebSocket, voiceSession: VoiceStreamingSession): Promise<boolean> {
+    if (!voiceSession.isActive) return false;
+
+    const session = await storage.getSession(voiceSession.sessionId);
+    if (!session) return false;
+
+    // Tiers can change mid-session when a wallet connects, so the quota is read fresh each time
+    const quota = await getVoiceQuota(session);
+    const pendingSeconds = this.pendingOutputSeconds(voiceSession);
+    const remainingSeconds = Math.max(0, Math.floor(quota.remainingSeconds - pendingSeconds));
+
+    this.send(clientWs, {
+      type: 'quota_update',
+      inputSeconds: voiceSession.inputSeconds,
+      outputSeconds: voiceSession.outputSeconds + Math.ceil(pendingSeconds),
+      remainingSeconds,
+      limitSeconds: quota.limitSeconds,
+      resetTime: quota.resetTime.toISOString(),
     });
 
-    elevenLabsWs.on('message', async (data: Buffer) => {
-      try {
-        const response = JSON.parse(data.toString());
-        
-        if (response.audio) {
-          // Forward audio chunks to client
-          clientWs.send(JSON.stringify({
-            type: 'audio_output',
-            audio: response.audio,
-            alignment: response.alignment,
-          }));
-
-          // Cache audio for playback/admin access
-          if (response.isFinal) {
-            await this.cacheAudioOutput(
-              voiceSession.sessionId,
-              voiceSession.conversationId,
-              response.audio
-            );
-          }
-        }
-      } catch (error) {
-        console.error('[Voice] ElevenLabs message error:', error);
-      }
-    });
+    if (remainingSeconds <= 0) {
+      this.endForQuota(clientWs, voiceSession, quota.resetTime);
+      return false;
+    }
+
+    if (remainingSeconds <= QUOTA_WARNING_SECONDS && !voiceSession.quotaWarned) {
+      voiceSession.quotaWarned = true;
+      this.send(clientWs, { type: 'quota_warning', remainingSeconds });
+    }
+    return true;
+  }
 
-    elevenLabsWs.on('error', (error) => {
-      console.error('[Voice] ElevenLabs WebSocket error:', error);
-      clientWs.send(JSON.stringify({ 
-        type: 'error', 
-        message: 'TTS connection error' 
-      }));
+  /**
+   * Reply audio sent to the client but not charged yet, because its reply is still being spoken
+   */
+  private pendingOutputSeconds(voiceSession: VoiceStreamingSession): number {
+    let seconds = 0;
+    voiceSession.speechOutputs.forEach(speech => {
+      seconds += speechBillableSeconds(Buffer.concat(speech.audioChunks), speech.stream.mimeType, speech.text);
     });
+    return seconds;
   }
 
   /**
-   * Initialize Gemini Live API for bidirectional audio streaming
+   * Stop speaking and close the socket; the audio already sent is still charged as its speech closes
    */
-  private async initializeGeminiLive(
+  private endForQuota(clientWs: WebSocket, voiceSession: VoiceStreamingSession, resetTime: Date): void {
+    if (!voiceSession.isActive) return;
+
+    this.send(clientWs, { type: 'quota_exhausted', resetTime: resetTime.toISOString() });
+    voiceSession.isActive = false;
+    voiceSession.abortController.abort();
+    voiceSession.speechOutputs.forEach(speech => this.cancelSpeech(speech));
+    clientWs.close(1000, 'Voice quota exhausted');
+  }
+
+  /**
+   * Load the persona prompt with the user's Memory Bank, as chat does
+   */
+  private async initializePersona(voiceSession: VoiceStreamingSession): Promise<void> {
+    const session = await storage.getSession(voiceSession.sessionId);
+    if (session) {
+      voiceSession.tier = session.tier;
+      voiceSession.systemInstruction = await MemoryBankService.buildSystemPrompt(session, voiceSession.personality);
+    }
+    voiceSession.systemInstruction = `${voiceSession.systemInstruction}\n\n${VOICE_STYLE_INSTRUCTION}`;
+  }
+
+  /**
+   * Open a TTS stream for one reply in the session's voice. Audio is forwarded to the client as it
+   * arrives; when the stream closes, after the last audio or an interruption, it is charged and stored.
+   * Without a configured provider, or if the connection fails, replies are sent as text only.
+   */
+  private async startSpeech(
     clientWs: WebSocket,
-    voiceSession: VoiceStreamingSession,
-    personality: string
-  ): Promise<void> {
-    try {
-      // Configure Gemini Live API for audio input/output
-      const config = {
-        response_modalities: ['TEXT'], // We use ElevenLabs for audio output
-        realtime_input_config: {
-          automatic_activity_detection: {
-            disabled: false,
-            start_of_speech_sensitivity: 'START_SENSITIVITY_LOW',
-            end_of_speech_sensitivity: 'END_SENSITIVITY_HIGH',
-            silence_duration_ms: 100,
-          },
+    voiceSession: VoiceStreamingSession
+  ): Promise<SpeechOutput | undefined> {
+    const provider = getTTSProvider();
+    if (!provider.isConfigured()) return undefined;
+
+    let setMessageId!: (messageId: string | undefined) => void;
+    const speech: SpeechOutput = {
+      stream: provider.openStream(voiceSession.voiceId, {
+        onAudio: (audio, alignment) => {
+          if (speech.interrupted) return;
+          this.startSpeaking(clientWs, voiceSession);
+          this.send(clientWs, {
+            type: 'audio_output',
+            audio: audio.toString('base64'),
+            alignment,
+          });
+          speech.audioChunks.push(audio);
         },
-        system_instruction: this.getPersonalitySystemPrompt(personality),
-      };
-
-      // Note: Gemini Live API connection would be established here
-      // For now, we'll use the standard Gemini API and upgrade to Live API when available
-      console.log('[Voice] Gemini configuration prepared for personality:', personality);
-      
-      clientWs.send(JSON.stringify({ 
-        type: 'voice_ready',
-        message: 'Voice streaming ready' 
-      }));
+        onError: (error) => {
+          if (speech.interrupted) return;
+          console.error('[Voice] TTS stream error:', error);
+          this.send(clientWs, {
+            type: 'error',
+            code: 'tts_unavailable',
+            message: 'TTS connection error',
+          });
+        },
+        onClose: () => {
+          voiceSession.speechOutputs.delete(speech);
+          this.finishSpeech(speech, voiceSession, clientWs);
+          // Interrupted speech has already handed the turn back
+          if (!speech.interrupted) this.endTurnIfDone(clientWs, voiceSession);
+        },
+      }),
+      text: '',
+      audioChunks: [],
+      messageId: new Promise(resolve => { setMessageId = resolve; }),
+      setMessageId: (messageId) => setMessageId(messageId),
+      interrupted: false,
+    };
+    voiceSession.speechOutputs.add(speech);
 
-    } catch (error) {
-      console.error('[Voice] Gemini Live initialization error:', error);
-      throw error;
+    try {
+      await speech.stream.ready;
+    } catch {
+      return undefined;
     }
+    return speech;
+  }
+
+  private speak(speech: SpeechOutput, text: string): void {
+    speech.text += text;
+    speech.stream.write(text);
+  }
+
+  /**
+   * Signal the end of the text; the provider generates what is left and closes the stream
+   */
+  private endSpeech(speech: SpeechOutput): void {
+    speech.stream.end();
+  }
+
+  /**
+   * Stop generating speech; the audio already sent is still charged and stored as the stream closes
+   */
+  private cancelSpeech(speech: SpeechOutput): void {
+    speech.interrupted = true;
+    speech.stream.cancel();
+  }
+
+  /**
+   * The persona takes the turn with the first reply text or audio
+   */
+  private startSpeaking(clientWs: WebSocket, voiceSession: VoiceStreamingSession): void {
+    if (voiceSession.turnState === 'speaking') return;
+    voiceSession.turnState = 'speaking';
+    this.send(clientWs, { type: 'turn_start', speaker: 'assistant', state: 'speaking' });
+  }
+
+  /**
+   * Hand the turn back once the reply is complete and all of its audio has been sent,
+   * or when there was nothing to reply
+   */
+  private endTurnIfDone(clientWs: WebSocket, voiceSession: VoiceStreamingSession): void {
+    if (voiceSession.generating || voiceSession.speechOutputs.size > 0) return;
+    if (voiceSession.turnState === 'listening') return;
+
+    voiceSession.turnState = 'listening';
+    this.send(clientWs, { type: 'turn_end', speaker: 'assistant', state: 'listening', interrupted: false });
+  }
+
+  /**
+   * Barge-in: cancel the reply being generated or spoken, including the client's playback
+   */
+  private interrupt(clientWs: WebSocket, voiceSession: VoiceStreamingSession): void {
+    voiceSession.turnState = 'listening';
+    voiceSession.abortController.abort();
+    voiceSession.speechOutputs.forEach(speech => this.cancelSpeech(speech));
+    this.send(clientWs, { type: 'turn_end', speaker: 'assistant', state: 'listening', interrupted: true });
+  }
+
+  /**
+   * Raw PCM can be told apart from silence and echo. Compressed audio is taken as speech:
+   * clients send it only while the user talks (push-to-talk or their own voice detection).
+   */
+  private isSpeech(chunk: Buffer, mimeType: string): boolean {
+    const level = pcmLevel(chunk, mimeType);
+    return level === undefined || level >= BARGE_IN_LEVEL;
   }
 
   /**
@@ -178,29 +364,16 @@ export class VoiceStreamingService {
     clientWs: WebSocket,
     voiceSession: VoiceStreamingSession
   ): void {
-    clientWs.on('message', async (data: Buffer) => {
+    clientWs.on('message', async (data) => {
+      const parsed = parseClientMessage(data);
+      if ('error' in parsed) {
+        this.send(clientWs, { type: 'error', ...parsed.error });
+        return;
+      }
+
       try {
-        const message = JSON.parse(data.toString());
-
-        switch (message.type) {
-          case 'audio_input':
-            // User speaking - process through Gemini for understanding
-            await this.processAudioInput(message.audio, voiceSession, clientWs);
-            break;
-
-          case 'text_input':
-            // User typing - send to ElevenLabs for TTS
-            await this.processTextInput(message.text, voiceSession);
-            break;
-
-          case 'stop':
-            // User stopped speaking
-            this.handleStopSpeaking(voiceSession);
-            break;
-
-          default:
-            console.warn('[Voice] Unknown message type:', message.type);
-        }
+        await voiceSession.ready;
+        await this.handleClientMessage(parsed.message, voiceSession, clientWs);
       } catch (error) {
         console.error('[Voice] Client message error:', error);
       }
@@ -208,118 +381,384 @@ export class VoiceStreamingService {
 
     clientWs.on('close', () => {
       console.log('[Voice] Client disconnected');
-      this.cleanupSession(voiceSession.sessionId);
+      this.cleanupSession(voiceSession.id);
     });
   }
 
+  private async handleClientMessage(
+    message: VoiceClientMessage,
+    voiceSession: VoiceStreamingSession,
+    clientWs: WebSocket
+  ): Promise<void> {
+    if (!voiceSession.isActive) return;
+
+    switch (message.type) {
+      case 'audio_input':
+        // User speaking - buffer the utterance until they stop
+        this.processAudioInput(message.audio, message.mimeType, voiceSession, clientWs);
+        break;
+
+      case 'text_input':
+        // User typing - speak it back
+        await this.processTextInput(message.text, voiceSession, clientWs);
+        break;
+
+      case 'stop':
+        // User stopped speaking
+        this.handleStopSpeaking(voiceSession, clientWs);
+        break;
+    }
+  }
+
   /**
-   * Process audio input from user (speech-to-text via Gemini)
+   * Buffer a chunk of the user's utterance
    */
-  private async processAudioInput(
+  private processAudioInput(
     audioData: string,
+    mimeType: string | undefined,
     voiceSession: VoiceStreamingSession,
     clientWs: WebSocket
-  ): Promise<void> {
-    // In production, use Gemini Live API for real-time audio understanding
-    // For now, send acknowledgment
-    clientWs.send(JSON.stringify({ 
-      type: 'audio_processing',
-      message: 'Processing your speech...' 
-    }));
+  ): void {
+    const chunk = Buffer.from(audioData, 'base64');
+
+    // While the persona has the turn, only speech counts; it interrupts the reply
+    if (voiceSession.turnState !== 'listening') {
+      if (!this.isSpeech(chunk, mimeType || voiceSession.audioMimeType)) return;
+      this.interrupt(clientWs, voiceSession);
+    }
+
+    if (voiceSession.audioBytes + chunk.length > MAX_UTTERANCE_BYTES) {
+      voiceSession.audioChunks = [];
+      voiceSession.audioBytes = 0;
+      this.send(clientWs, {
+        type: 'error',
+        code: 'audio_too_large',
+        message: 'That was too long to process. Please say it in shorter parts.',
+      });
+      return;
+    }
+
+    if (voiceSession.audioChunks.length === 0) {
+      voiceSession.audioMimeType = mimeType || DEFAULT_AUDIO_MIME_TYPE;
+      voiceSession.utteranceStartedAt = Date.now();
+      this.send(clientWs, { type: 'turn_start', speaker: 'user', state: 'listening' });
+    }
+    voiceSession.audioChunks.push(chunk);
+    voiceSession.audioBytes += chunk.length;
   }
 
   /**
-   * Process text input and convert to speech via ElevenLabs
+   * Speak the text back in the session's voice
    */
   private async processTextInput(
     text: string,
-    voiceSession: VoiceStreamingSession
+    voiceSession: VoiceStreamingSession,
+    clientWs: WebSocket
   ): Promise<void> {
-    if (!voiceSession.elevenLabsWs || voiceSession.elevenLabsWs.readyState !== WebSocket.OPEN) {
-      console.error('[Voice] ElevenLabs WebSocket not ready');
+    // Speaking is charged afterwards, so check there is allowance left first
+    if (!(await this.checkQuota(clientWs, voiceSession))) return;
+
+    const speech = await this.startSpeech(clientWs, voiceSession);
+    if (!speech) {
+      console.error('[Voice] TTS stream not ready');
       return;
     }
 
-    // Send text to ElevenLabs for TTS
-    voiceSession.elevenLabsWs.send(JSON.stringify({
-      text: text,
-      try_trigger_generation: true,
-    }));
+    // Text input is spoken back as is; there is no message to link the audio to
+    speech.setMessageId(undefined);
+    this.speak(speech, text);
+    this.endSpeech(speech);
   }
 
   /**
-   * Handle user stopping speech
+   * Handle user stopping speech: answer the buffered utterance
    */
-  private handleStopSpeaking(voiceSession: VoiceStreamingSession): void {
-    if (!voiceSession.elevenLabsWs || voiceSession.elevenLabsWs.readyState !== WebSocket.OPEN) {
+  private handleStopSpeaking(voiceSession: VoiceStreamingSession, clientWs: WebSocket): void {
+    if (voiceSession.audioChunks.length === 0) return;
+
+    const audio = Buffer.concat(voiceSession.audioChunks);
+    const mimeType = voiceSession.audioMimeType;
+    // Compressed browser recordings cannot be measured; they arrive in real time, so time them instead
+    const inputSeconds = billableSeconds(
+      getAudioDurationSeconds(audio, mimeType) ?? (Date.now() - (voiceSession.utteranceStartedAt ?? Date.now())) / 1000
+    );
+    voiceSession.audioChunks = [];
+    voiceSession.audioBytes = 0;
+
+    voiceSession.turnState = 'thinking';
+    this.send(clientWs, { type: 'turn_end', speaker: 'user', state: 'thinking', interrupted: false });
+
+    // Barge-in cancels this turn, even while it waits for the one before it
+    const abortController = new AbortController();
+    voiceSession.abortController = abortController;
+
+    voiceSession.turn = voiceSession.turn
+      .then(() => this.answerUtterance(audio, mimeType, inputSeconds, abortController.signal, voiceSession, clientWs))
+      .catch(error => console.error('[Voice] Failed to answer utterance:', error));
+  }
+
+  private async answerUtterance(
+    audio: Buffer,
+    mimeType: string,
+    inputSeconds: number,
+    signal: AbortSignal,
+    voiceSession: VoiceStreamingSession,
+    clientWs: WebSocket
+  ): Promise<void> {
+    if (!voiceSession.isActive) return;
+
+    try {
+      await this.answer(audio, mimeType, inputSeconds, signal, voiceSession, clientWs);
+    } finally {
+      // Back to listening when there was nothing to say, unless the user has already barged in
+      if (!signal.aborted) {
+        this.endTurnIfDone(clientWs, voiceSession);
+      }
+    }
+  }
+
+  private async answer(
+    audio: Buffer,
+    mimeType: string,
+    inputSeconds: number,
+    signal: AbortSignal,
+    voiceSession: VoiceStreamingSession,
+    clientWs: WebSocket
+  ): Promise<void> {
+    // The utterance was heard even if it was interrupted before being answered
+    await chargeVoiceSeconds(voiceSession.sessionId, inputSeconds);
+    voiceSession.inputSeconds += inputSeconds;
+    if (!(await this.checkQuota(clientWs, voiceSession)) || signal.aborted) return;
+
+    this.send(clientWs, {
+      type: 'audio_processing',
+      message: 'Processing your speech...',
+    });
+
+    const transcript = await this.transcribe(audio, mimeType, signal, clientWs);
+    if (!transcript) return;
+
+    let userMessage: Message;
+    try {
+      userMessage = await this.saveUserMessage(transcript, voiceSession, clientWs);
+    } catch (error) {
+      console.error('[Voice] Failed to save transcript:', error);
+      this.send(clientWs, {
+        type: 'error',
+        code: 'reply_failed',
+        message: 'Failed to save your message',
+      });
       return;
     }
+    await this.reply(userMessage, signal, voiceSession, clientWs);
+  }
 
-    // Flush remaining audio
-    voiceSession.elevenLabsWs.send(JSON.stringify({
-      text: '',
-      flush: true,
-    }));
+  /**
+   * Add the transcript to the end of the conversation's active branch, as a typed message would be
+   */
+  private async saveUserMessage(
+    transcript: string,
+    voiceSession: VoiceStreamingSession,
+    clientWs: WebSocket
+  ): Promise<Message> {
+    // Read fresh: the text chat may have moved the branch since the last turn
+    const conversation = await storage.getConversation(voiceSession.conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${voiceSession.conversationId} not found`);
+    }
+
+    const userMessage = await storage.createMessage({
+      conversationId: conversation.id,
+      parentMessageId: await MessageTreeService.getActiveLeafId(conversation),
+      role: 'user',
+      content: transcript,
+      isImage: false,
+      metadata: { personality: voiceSession.personality, voice: true },
+    });
+    this.send(clientWs, { type: 'message_saved', role: 'user', messageId: userMessage.id });
+    return userMessage;
   }
 
   /**
-   * Cache audio output for secure access
+   * Speech-to-text, streaming partial transcripts to the client
    */
-  private async cacheAudioOutput(
-    sessionId: string,
-    conversationId: string,
-    audioBase64: string
+  private async transcribe(
+    audio: Buffer,
+    mimeType: string,
+    signal: AbortSignal,
+    clientWs: WebSocket
+  ): Promise<string | undefined> {
+    let transcript: string | undefined;
+
+    try {
+      for await (const event of getSpeechProvider().transcribe({ audio, mimeType, signal })) {
+        this.send(clientWs, { type: 'transcript', text: event.text, final: event.final });
+        if (event.final) transcript = event.text;
+      }
+    } catch (error) {
+      if (signal.aborted) return undefined;
+      console.error('[Voice] Transcription error:', error);
+      this.send(clientWs, {
+        type: 'error',
+        code: 'transcription_failed',
+        message: 'Could not understand the audio',
+      });
+      return undefined;
+    }
+
+    return transcript || undefined;
+  }
+
+  /**
+   * Answer the saved transcript with the persona's LLM, speaking the reply as it streams in.
+   * The reply is saved before the speech ends, so its audio can be linked to it.
+   */
+  private async reply(
+    userMessage: Message,
+    signal: AbortSignal,
+    voiceSession: VoiceStreamingSession,
+    clientWs: WebSocket
   ): Promise<void> {
+    const { llm, provider, model } = resolveLLM(voiceSession.tier, voiceSession.personality);
+    // The same trimmed and summarized branch the text chat sends
+    const context = await contextAssembler.assemble(voiceSession.conversationId, {
+      leafMessageId: userMessage.id,
+      llm: { llm, model },
+    });
+
+    const speech = signal.aborted ? undefined : await this.startSpeech(clientWs, voiceSession);
+    let text = '';
+    let failed = false;
+
+    voiceSession.generating = true;
     try {
-      const secureToken = generateSecureToken();
-      const audioUrl = `/api/audio/${secureToken}`;
+      for await (const delta of llm.stream({
+        model,
+        contents: context.contents,
+        systemInstruction: voiceSession.systemInstruction,
+        signal,
+      })) {
+        if (signal.aborted) break;
+        if (!text) this.startSpeaking(clientWs, voiceSession);
+        text += delta;
+        this.send(clientWs, { type: 'reply_text', text, final: false });
+        if (speech) this.speak(speech, delta);
+      }
+    } catch (error) {
+      if (!signal.aborted) {
+        console.error('[Voice] Reply error:', error);
+        failed = true;
+        this.send(clientWs, {
+          type: 'error',
+          code: 'reply_failed',
+          message: 'Failed to generate a reply',
+        });
+      }
+    }
 
-      await storage.createAudioCache({
-        sessionId,
-        conversationId,
-        audioUrl,
-        secureToken,
-        text: 'Voice conversation audio',
-        voiceSettings: {
-          provider: 'elevenlabs',
-          model: 'eleven_turbo_v2_5',
-        },
-      });
+    const aborted = signal.aborted;
+    if (!aborted && !failed) {
+      this.send(clientWs, { type: 'reply_text', text, final: true });
+    }
 
-      console.log('[Voice] Audio cached with secure token');
+    try {
+      // Persist whatever was said, including replies cut off by barge-in or a disconnect
+      const content = text || (failed ? 'I apologize, but I encountered an error processing your request. Please try again.' : '');
+      if (content) {
+        const aiMessage = await storage.createMessage({
+          conversationId: voiceSession.conversationId,
+          parentMessageId: userMessage.id,
+          role: 'assistant',
+          content,
+          isImage: false,
+          metadata: {
+            personality: voiceSession.personality,
+            provider,
+            model,
+            voice: true,
+            ...(aborted && { aborted: true }),
+            ...(failed && { error: true }),
+          },
+        });
+        speech?.setMessageId(aiMessage.id);
+        this.send(clientWs, { type: 'message_saved', role: 'assistant', messageId: aiMessage.id });
+
+        if (!aborted && !failed) {
+          ConversationSummaryService.schedule(voiceSession.conversationId);
+        }
+      }
     } catch (error) {
-      console.error('[Voice] Failed to cache audio:', error);
+      console.error('[Voice] Failed to save reply:', error);
+    } finally {
+      voiceSession.generating = false;
+      speech?.setMessageId(undefined); // Releases the audio when no reply was saved
+      // A failed reply still finishes speaking what it had said
+      if (speech && aborted) {
+        this.cancelSpeech(speech);
+      } else if (speech) {
+        this.endSpeech(speech);
+      }
     }
   }
 
   /**
-   * Get system prompt based on personality
+   * Charge the voice quota for the audio the client received and store it for secure access,
+   * linked to the reply it speaks
    */
-  private getPersonalitySystemPrompt(personality: string): string {
-    const prompts: Record<string, string> = {
-      'AUtistic AI': 'You are AUtistic AI, specialized in meme coins and creative content. Be casual, fun, and knowledgeable about crypto culture.',
-      'Level 1 ASD': 'You are Level 1 ASD, focused on learning, facts, and solving complex problems. Be analytical and educational.',
-      'Savantist': 'You are Savantist, the expert in advanced trading insights. Provide deep analysis with maximum detail and precision.',
-    };
+  private async finishSpeech(
+    speech: SpeechOutput,
+    voiceSession: VoiceStreamingSession,
+    clientWs: WebSocket
+  ): Promise<void> {
+    if (speech.audioChunks.length === 0) return;
+
+    const data = Buffer.concat(speech.audioChunks);
+    const mimeType = speech.stream.mimeType;
+    const duration = speechBillableSeconds(data, mimeType, speech.text);
 
-    return prompts[personality] || prompts['AUtistic AI'];
+    try {
+      await chargeVoiceSeconds(voiceSession.sessionId, duration);
+      voiceSession.outputSeconds += duration;
+      await this.checkQuota(clientWs, voiceSession);
+    } catch (error) {
+      console.error('[Voice] Failed to charge voice usage:', error);
+    }
+
+    try {
+      const messageId = await speech.messageId;
+      const audio = await AudioStorageService.save({
+        sessionId: voiceSession.sessionId,
+        conversationId: voiceSession.conversationId,
+        messageId,
+        text: speech.text.trim() || 'Voice conversation audio',
+        data,
+        mimeType,
+        duration,
+        voiceSettings: getVoiceSettings(voiceSession.voiceId),
+      });
+      if (messageId) {
+        await storage.updateMessage(messageId, { audioUrl: audio.audioUrl });
+      }
+    } catch (error) {
+      console.error('[Voice] Failed to cache audio:', error);
+    }
   }
 
   /**
    * Cleanup voice session
    */
-  private cleanupSession(sessionId: string): void {
-    const session = this.activeSessions.get(sessionId);
+  private cleanupSession(streamId: string): void {
+    const session = this.activeSessions.get(streamId);
     
     if (session) {
       session.isActive = false;
+      session.abortController.abort();
+      clearInterval(session.quotaTimer);
 
-      if (session.elevenLabsWs) {
-        session.elevenLabsWs.close();
-      }
+      session.speechOutputs.forEach(speech => this.cancelSpeech(speech));
 
-      this.activeSessions.delete(sessionId);
-      console.log(`[Voice] Session cleaned up: ${sessionId}`);
+      this.activeSessions.delete(streamId);
+      console.log(`[Voice] Session cleaned up: ${streamId}`);
     }
   }
 }
@@ -1,13 +1,49 @@
 import { db } from "./db";
 import { 
-  users, sessions, conversations, messages, audioCache, rateLimits, webhookLogs,
+  users, sessions, conversations, messages, audioCache, rateLimits, webhookLogs, generatedImages, attachments, memories, shareLinks,
   type User, type Session, type Conversation, type Message, type AudioCache, type RateLimit, type WebhookLog,
+  type GeneratedImage, type Attachment, type Memory, type ShareLink,
   type InsertUser, type InsertSession, type InsertConversation, type InsertMessage, 
-  type InsertAudioCache, type InsertRateLimit, type InsertWebhookLog
+  type InsertAudioCache, type InsertRateLimit, type InsertWebhookLog, type InsertGeneratedImage, type InsertAttachment,
+  type InsertMemory, type InsertShareLink, conversationSearchVector, messageSearchVector
 } from "@shared/schema";
-import { eq, and, gte, lte, desc } from "drizzle-orm";
+import { sql, eq, ne, and, or, gte, lte, desc, inArray, isNull, isNotNull, type SQL } from "drizzle-orm";
 import { randomUUID } from "crypto";
 
+export type ConversationView = "active" | "archived" | "deleted";
+
+export interface ConversationListOptions {
+  view?: ConversationView;
+  limit?: number;
+  before?: { pinned: boolean; updatedAt: Date; id: string }; // Keyset cursor: the last conversation of the previous page
+}
+
+// Matches in search headlines are wrapped in these markers, which cannot occur in typed text
+export const SEARCH_MATCH_START = "\u0001";
+export const SEARCH_MATCH_END = "\u0002";
+
+export interface SearchOptions {
+  sessionId: string;
+  personality?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+export interface SearchHit {
+  conversationId: string;
+  conversationTitle: string | null;
+  messageId: string | null; // Null when the conversation title matched
+  role: string | null;
+  personality: string | null;
+  headline: string; // Matching excerpt with matches between SEARCH_MATCH_START and SEARCH_MATCH_END
+  createdAt: Date;
+  rank: number;
+}
+
+// A message recreated from an export, with its id assigned up front so branches can be linked
+export type ImportedMessage = Omit<InsertMessage, "conversationId"> & { id: string; createdAt?: Date };
+
 export interface IStorage {
   // User methods
   getUser(id: string): Promise<User | undefined>;
@@ -23,14 +59,50 @@ export interface IStorage {
 
   // Conversation methods
   getConversation(id: string): Promise<Conversation | undefined>;
-  getConversationsBySession(sessionId: string): Promise<Conversation[]>;
+  getConversationsBySession(sessionId: string, options?: ConversationListOptions): Promise<Conversation[]>;
   createConversation(conversation: InsertConversation): Promise<Conversation>;
   updateConversation(id: string, data: Partial<Conversation>): Promise<Conversation | undefined>;
+  renameConversation(id: string, title: string): Promise<Conversation | undefined>;
+  setGeneratedTitle(id: string, title: string): Promise<Conversation | undefined>;
+  updateConversationSummary(id: string, summary: string, throughMessageId: string): Promise<Conversation | undefined>;
+  setConversationPinned(id: string, pinned: boolean): Promise<Conversation | undefined>;
+  setConversationArchived(id: string, archived: boolean): Promise<Conversation | undefined>;
+  softDeleteConversation(id: string): Promise<Conversation | undefined>;
+  restoreConversation(id: string): Promise<Conversation | undefined>;
+  setActiveLeafMessage(id: string, messageId: string): Promise<Conversation | undefined>;
+  importConversation(
+    conversation: InsertConversation & { createdAt?: Date; updatedAt?: Date },
+    messages: ImportedMessage[]
+  ): Promise<Conversation>;
+  searchConversations(query: string, options: SearchOptions): Promise<SearchHit[]>;
 
   // Message methods
   getMessage(id: string): Promise<Message | undefined>;
   getMessagesByConversation(conversationId: string): Promise<Message[]>;
   createMessage(message: InsertMessage): Promise<Message>;
+  updateMessage(id: string, data: Partial<Message>): Promise<Message | undefined>;
+
+  // Attachment methods
+  getAttachment(id: string): Promise<Attachment | undefined>;
+  getAttachmentsByIds(ids: string[]): Promise<Attachment[]>;
+  getAttachmentsByMessage(messageId: string): Promise<Attachment[]>;
+  createAttachment(attachment: InsertAttachment): Promise<Attachment>;
+  updateAttachment(id: string, data: Partial<Attachment>): Promise<Attachment | undefined>;
+
+  // Memory Bank methods
+  getMemory(id: string): Promise<Memory | undefined>;
+  getMemories(sessionId: string): Promise<Memory[]>;
+  createMemory(memory: InsertMemory): Promise<Memory>;
+  updateMemory(id: string, data: Partial<Memory>): Promise<Memory | undefined>;
+  deleteMemory(id: string): Promise<void>;
+
+  // Share link methods
+  getShareLink(id: string): Promise<ShareLink | undefined>;
+  getShareLinkByToken(token: string): Promise<ShareLink | undefined>;
+  getShareLinksByConversation(conversationId: string): Promise<ShareLink[]>;
+  createShareLink(link: InsertShareLink): Promise<ShareLink>;
+  revokeShareLink(id: string): Promise<ShareLink | undefined>;
+  recordShareLinkView(id: string): Promise<void>;
 
   // Audio cache methods
   getAudioCache(id: string): Promise<AudioCache | undefined>;
@@ -39,10 +111,16 @@ export interface IStorage {
   getAudioCacheByConversation(conversationId: string): Promise<AudioCache[]>;
   createAudioCache(audio: InsertAudioCache): Promise<AudioCache>;
 
+  // Generated image methods
+  getGeneratedImageByToken(secureToken: string): Promise<GeneratedImage | undefined>;
+  createGeneratedImage(image: InsertGeneratedImage): Promise<GeneratedImage>;
+  updateGeneratedImage(id: string, data: Partial<GeneratedImage>): Promise<GeneratedImage | undefined>;
+
   // Rate limit methods
   getRateLimit(sessionId: string): Promise<RateLimit | undefined>;
   createRateLimit(rateLimit: InsertRateLimit): Promise<RateLimit>;
   updateRateLimit(id: string, data: Partial<RateLimit>): Promise<RateLimit | undefined>;
+  addVoiceSeconds(id: string, seconds: number): Promise<void>;
 
   // Webhook log methods
   createWebhookLog(log: InsertWebhookLog): Promise<WebhookLog>;
@@ -104,8 +182,37 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
-  async getConversationsBySession(sessionId: string): Promise<Conversation[]> {
-    return await db.select().from(conversations).where(eq(conversations.sessionId, sessionId)).orderBy(desc(conversations.updatedAt));
+  async getConversationsBySession(sessionId: string, options: ConversationListOptions = {}): Promise<Conversation[]> {
+    const conditions = [eq(conversations.sessionId, sessionId)];
+
+    switch (options.view ?? "active") {
+      case "active":
+        conditions.push(isNull(conversations.deletedAt), isNull(conversations.archivedAt));
+        break;
+      case "archived":
+        conditions.push(isNull(conversations.deletedAt), isNotNull(conversations.archivedAt));
+        break;
+      case "deleted":
+        conditions.push(isNotNull(conversations.deletedAt));
+        break;
+    }
+
+    // Pinned conversations come first, then everything else by recent activity. Cursors carry
+    // millisecond timestamps, so pages are ordered at that precision, with the ID breaking ties.
+    const updatedAtMs = sql`date_trunc('milliseconds', ${conversations.updatedAt})`;
+    if (options.before) {
+      const { pinned, updatedAt, id } = options.before;
+      const olderInGroup = and(
+        eq(conversations.pinned, pinned),
+        sql`(${updatedAtMs}, ${conversations.id}) < (${updatedAt.toISOString()}::timestamp, ${id})`
+      )!;
+      conditions.push(pinned ? or(eq(conversations.pinned, false), olderInGroup)! : olderInGroup);
+    }
+
+    const query = db.select().from(conversations)
+      .where(and(...conditions))
+      .orderBy(desc(conversations.pinned), desc(updatedAtMs), desc(conversations.id));
+    return await (options.limit ? query.limit(options.limit) : query);
   }
 
   async createConversation(conversation: InsertConversation): Promise<Conversation> {
@@ -119,6 +226,133 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  // Conversation management leaves updatedAt alone so the history order only follows new messages
+  // A title set by the user is never replaced by a generated one
+  async renameConversation(id: string, title: string): Promise<Conversation | undefined> {
+    const result = await db.update(conversations).set({ title, titleSource: "user" }).where(eq(conversations.id, id)).returning();
+    return result[0];
+  }
+
+  async setGeneratedTitle(id: string, title: string): Promise<Conversation | undefined> {
+    const result = await db.update(conversations)
+      .set({ title, titleSource: "generated" })
+      .where(and(eq(conversations.id, id), ne(conversations.titleSource, "user")))
+      .returning();
+    return result[0];
+  }
+
+  async updateConversationSummary(id: string, summary: string, throughMessageId: string): Promise<Conversation | undefined> {
+    const result = await db.update(conversations)
+      .set({ summary, summaryThroughMessageId: throughMessageId })
+      .where(eq(conversations.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async setConversationPinned(id: string, pinned: boolean): Promise<Conversation | undefined> {
+    const result = await db.update(conversations).set({ pinned }).where(eq(conversations.id, id)).returning();
+    return result[0];
+  }
+
+  async setConversationArchived(id: string, archived: boolean): Promise<Conversation | undefined> {
+    const result = await db.update(conversations)
+      .set({ archivedAt: archived ? new Date() : null })
+      .where(eq(conversations.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async softDeleteConversation(id: string): Promise<Conversation | undefined> {
+    const result = await db.update(conversations).set({ deletedAt: new Date() }).where(eq(conversations.id, id)).returning();
+    return result[0];
+  }
+
+  async restoreConversation(id: string): Promise<Conversation | undefined> {
+    const result = await db.update(conversations).set({ deletedAt: null }).where(eq(conversations.id, id)).returning();
+    return result[0];
+  }
+
+  async setActiveLeafMessage(id: string, messageId: string): Promise<Conversation | undefined> {
+    const result = await db.update(conversations).set({ activeLeafMessageId: messageId }).where(eq(conversations.id, id)).returning();
+    return result[0];
+  }
+
+  async importConversation(
+    conversation: InsertConversation & { createdAt?: Date; updatedAt?: Date },
+    importedMessages: ImportedMessage[]
+  ): Promise<Conversation> {
+    // All or nothing, so a failed import leaves no partial conversation behind
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(conversations).values(conversation).returning();
+      if (importedMessages.length > 0) {
+        await tx.insert(messages).values(importedMessages.map(message => ({ ...message, conversationId: created.id })));
+      }
+      return created;
+    });
+  }
+
+  async searchConversations(query: string, options: SearchOptions): Promise<SearchHit[]> {
+    const limit = options.limit ?? 20;
+    const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+    const headlineOptions = `StartSel=${SEARCH_MATCH_START}, StopSel=${SEARCH_MATCH_END}, MaxWords=24, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "`;
+    const personality = sql<string | null>`${messages.metadata}->>'personality'`;
+
+    // Deleted conversations are left out; archived ones are still searchable
+    const scope: SQL[] = [isNull(conversations.deletedAt), eq(conversations.sessionId, options.sessionId)];
+
+    const messageVector = messageSearchVector(messages.content);
+    const messageRank = sql<number>`ts_rank(${messageVector}, ${tsQuery})`;
+    const messageConditions = [...scope, sql`${messageVector} @@ ${tsQuery}`];
+    if (options.personality) messageConditions.push(sql`${personality} = ${options.personality}`);
+    if (options.from) messageConditions.push(gte(messages.createdAt, options.from));
+    if (options.to) messageConditions.push(lte(messages.createdAt, options.to));
+
+    const messageHits = await db.select({
+      conversationId: messages.conversationId,
+      conversationTitle: conversations.title,
+      messageId: messages.id,
+      role: messages.role,
+      personality,
+      headline: sql<string>`ts_headline('english', ${messages.content}, ${tsQuery}, ${headlineOptions})`,
+      createdAt: messages.createdAt,
+      rank: messageRank,
+    })
+      .from(messages)
+      .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+      .where(and(...messageConditions))
+      .orderBy(desc(messageRank), desc(messages.createdAt))
+      .limit(limit);
+
+    const titleVector = conversationSearchVector(conversations.title);
+    const titleRank = sql<number>`ts_rank(${titleVector}, ${tsQuery})`;
+    const titleConditions = [...scope, sql`${titleVector} @@ ${tsQuery}`];
+    // A conversation matches the persona filter if any of its messages used that persona
+    if (options.personality) {
+      titleConditions.push(sql`exists (select 1 from ${messages} where ${messages.conversationId} = ${conversations.id} and ${personality} = ${options.personality})`);
+    }
+    if (options.from) titleConditions.push(gte(conversations.updatedAt, options.from));
+    if (options.to) titleConditions.push(lte(conversations.updatedAt, options.to));
+
+    const titleHits = await db.select({
+      conversationId: conversations.id,
+      conversationTitle: conversations.title,
+      headline: sql<string>`ts_headline('english', ${conversations.title}, ${tsQuery}, ${headlineOptions})`,
+      createdAt: conversations.updatedAt,
+      rank: titleRank,
+    })
+      .from(conversations)
+      .where(and(...titleConditions))
+      .orderBy(desc(titleRank), desc(conversations.updatedAt))
+      .limit(limit);
+
+    return [
+      ...titleHits.map(hit => ({ ...hit, messageId: null, role: null, personality: null })),
+      ...messageHits,
+    ]
+      .sort((a, b) => b.rank - a.rank || b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
   // Message methods
   async getMessage(id: string): Promise<Message | undefined> {
     const result = await db.select().from(messages).where(eq(messages.id, id)).limit(1);
@@ -131,9 +365,106 @@ export class DatabaseStorage implements IStorage {
 
   async createMessage(message: InsertMessage): Promise<Message> {
     const result = await db.insert(messages).values(message).returning();
+    // A new message becomes the end of the active branch and moves the conversation to the top of the history
+    await db.update(conversations)
+      .set({ updatedAt: new Date(), activeLeafMessageId: result[0].id })
+      .where(eq(conversations.id, message.conversationId));
+    return result[0];
+  }
+
+  async updateMessage(id: string, data: Partial<Message>): Promise<Message | undefined> {
+    const updateData: any = { ...data };
+    const result = await db.update(messages).set(updateData).where(eq(messages.id, id)).returning();
+    return result[0];
+  }
+
+  // Attachment methods
+  async getAttachment(id: string): Promise<Attachment | undefined> {
+    const result = await db.select().from(attachments).where(eq(attachments.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getAttachmentsByIds(ids: string[]): Promise<Attachment[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(attachments).where(inArray(attachments.id, ids)).orderBy(attachments.createdAt);
+  }
+
+  async getAttachmentsByMessage(messageId: string): Promise<Attachment[]> {
+    return await db.select().from(attachments).where(eq(attachments.messageId, messageId)).orderBy(attachments.createdAt);
+  }
+
+  async createAttachment(attachment: InsertAttachment): Promise<Attachment> {
+    const result = await db.insert(attachments).values(attachment).returning();
+    return result[0];
+  }
+
+  async updateAttachment(id: string, data: Partial<Attachment>): Promise<Attachment | undefined> {
+    const updateData: any = { ...data };
+    const result = await db.update(attachments).set(updateData).where(eq(attachments.id, id)).returning();
     return result[0];
   }
 
+  // Memory Bank methods
+  async getMemory(id: string): Promise<Memory | undefined> {
+    const result = await db.select().from(memories).where(eq(memories.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getMemories(sessionId: string): Promise<Memory[]> {
+    return await db.select().from(memories)
+      .where(eq(memories.sessionId, sessionId))
+      .orderBy(memories.createdAt);
+  }
+
+  async createMemory(memory: InsertMemory): Promise<Memory> {
+    const result = await db.insert(memories).values(memory).returning();
+    return result[0];
+  }
+
+  async updateMemory(id: string, data: Partial<Memory>): Promise<Memory | undefined> {
+    const updateData: any = { ...data, updatedAt: new Date() };
+    const result = await db.update(memories).set(updateData).where(eq(memories.id, id)).returning();
+    return result[0];
+  }
+
+  async deleteMemory(id: string): Promise<void> {
+    await db.delete(memories).where(eq(memories.id, id));
+  }
+
+  // Share link methods
+  async getShareLink(id: string): Promise<ShareLink | undefined> {
+    const result = await db.select().from(shareLinks).where(eq(shareLinks.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getShareLinkByToken(token: string): Promise<ShareLink | undefined> {
+    const result = await db.select().from(shareLinks).where(eq(shareLinks.token, token)).limit(1);
+    return result[0];
+  }
+
+  async getShareLinksByConversation(conversationId: string): Promise<ShareLink[]> {
+    return await db.select().from(shareLinks)
+      .where(eq(shareLinks.conversationId, conversationId))
+      .orderBy(desc(shareLinks.createdAt));
+  }
+
+  async createShareLink(link: InsertShareLink): Promise<ShareLink> {
+    const result = await db.insert(shareLinks).values(link).returning();
+    return result[0];
+  }
+
+  async revokeShareLink(id: string): Promise<ShareLink | undefined> {
+    const result = await db.update(shareLinks).set({ revokedAt: new Date() }).where(eq(shareLinks.id, id)).returning();
+    return result[0];
+  }
+
+  async recordShareLinkView(id: string): Promise<void> {
+    // Incremented in SQL so concurrent views are all counted
+    await db.update(shareLinks)
+      .set({ viewCount: sql`${shareLinks.viewCount} + 1`, lastViewedAt: new Date() })
+      .where(eq(shareLinks.id, id));
+  }
+
   // Audio cache methods
   async getAudioCache(id: string): Promise<AudioCache | undefined> {
     const result = await db.select().from(audioCache).where(eq(audioCache.id, id)).limit(1);
@@ -158,6 +489,23 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  // Generated image methods
+  async getGeneratedImageByToken(secureToken: string): Promise<GeneratedImage | undefined> {
+    const result = await db.select().from(generatedImages).where(eq(generatedImages.secureToken, secureToken)).limit(1);
+    return result[0];
+  }
+
+  async createGeneratedImage(image: InsertGeneratedImage): Promise<GeneratedImage> {
+    const result = await db.insert(generatedImages).values(image).returning();
+    return result[0];
+  }
+
+  async updateGeneratedImage(id: string, data: Partial<GeneratedImage>): Promise<GeneratedImage | undefined> {
+    const updateData: any = { ...data };
+    const result = await db.update(generatedImages).set(updateData).where(eq(generatedImages.id, id)).returning();
+    return result[0];
+  }
+
   // Rate limit methods
   async getRateLimit(sessionId: string): Promise<RateLimit | undefined> {
     const now = new Date();
@@ -181,6 +529,16 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  async addVoiceSeconds(id: string, seconds: number): Promise<void> {
+    // Incremented in SQL so overlapping voice replies are all charged
+    await db.update(rateLimits)
+      .set({
+        voiceSecondsUsed: sql`${rateLimits.voiceSecondsUsed} + ${seconds}`,
+        voiceMinutesUsed: sql`ceil((${rateLimits.voiceSecondsUsed} + ${seconds}) / 60.0)::integer`,
+      })
+      .where(eq(rateLimits.id, id));
+  }
+
   // Webhook log methods
   async createWebhookLog(log: InsertWebhookLog): Promise<WebhookLog> {
     const result = await db.insert(webhookLogs).values(log).returning();
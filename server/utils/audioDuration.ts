@@ -0,0 +1,182 @@
+// Audio duration metering
+// Measures how long generated audio plays, so voice quotas are charged by real usage rather than
+// by word-count estimates. MP3 is measured frame by frame; WAV and raw PCM by counting samples.
+
+// Bitrates in kbps by bitrate index; index 0 ("free") and 15 are invalid
+const MP3_BITRATES = {
+  v1l1: [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  v1l2: [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  v1l3: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  v2l1: [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  v2l23: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+
+// Sample rates by version bits: MPEG 2.5, reserved, MPEG 2, MPEG 1
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  0: [11025, 12000, 8000],
+  2: [22050, 24000, 16000],
+  3: [44100, 48000, 32000],
+};
+
+interface Mp3Frame {
+  length: number;
+  samples: number;
+  sampleRate: number;
+}
+
+function readMp3Frame(data: Buffer, offset: number): Mp3Frame | undefined {
+  if (offset + 4 > data.length) return undefined;
+  const [b0, b1, b2] = [data[offset], data[offset + 1], data[offset + 2]];
+  if (b0 !== 0xff || (b1 & 0xe0) !== 0xe0) return undefined;
+
+  const version = (b1 >> 3) & 0x03;
+  const layer = (b1 >> 1) & 0x03; // 3 = Layer I, 2 = Layer II, 1 = Layer III
+  const bitrateIndex = (b2 >> 4) & 0x0f;
+  const sampleRateIndex = (b2 >> 2) & 0x03;
+  const padding = (b2 >> 1) & 0x01;
+  if (version === 1 || layer === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return undefined;
+  }
+
+  const isV1 = version === 3;
+  const table = layer === 3
+    ? (isV1 ? MP3_BITRATES.v1l1 : MP3_BITRATES.v2l1)
+    : isV1
+      ? (layer === 2 ? MP3_BITRATES.v1l2 : MP3_BITRATES.v1l3)
+      : MP3_BITRATES.v2l23;
+  const bitrate = table[bitrateIndex] * 1000;
+  const sampleRate = MP3_SAMPLE_RATES[version][sampleRateIndex];
+
+  if (layer === 3) {
+    return { length: (Math.floor((12 * bitrate) / sampleRate) + padding) * 4, samples: 384, sampleRate };
+  }
+  const samples = layer === 1 && !isV1 ? 576 : 1152;
+  return { length: Math.floor((samples / 8) * bitrate / sampleRate) + padding, samples, sampleRate };
+}
+
+/**
+ * Sum the samples of every MPEG audio frame, skipping ID3 tags and anything between frames
+ */
+export function mp3DurationSeconds(data: Buffer): number {
+  let offset = 0;
+
+  // ID3v2 tag: 10-byte header with a syncsafe size, plus an optional footer
+  if (data.length >= 10 && data.toString('latin1', 0, 3) === 'ID3') {
+    const size = ((data[6] & 0x7f) << 21) | ((data[7] & 0x7f) << 14) | ((data[8] & 0x7f) << 7) | (data[9] & 0x7f);
+    offset = 10 + size + (data[5] & 0x10 ? 10 : 0);
+  }
+
+  let seconds = 0;
+  while (offset < data.length) {
+    const frame = readMp3Frame(data, offset);
+    if (!frame) {
+      offset++;
+      continue;
+    }
+    // A truncated last frame does not play
+    if (offset + frame.length > data.length) break;
+    seconds += frame.samples / frame.sampleRate;
+    offset += frame.length;
+  }
+  return seconds;
+}
+
+export interface PcmFormat {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+}
+
+export function pcmDurationSeconds(byteLength: number, format: PcmFormat): number {
+  const bytesPerSecond = format.sampleRate * format.channels * (format.bitsPerSample / 8);
+  return bytesPerSecond > 0 ? byteLength / bytesPerSecond : 0;
+}
+
+/**
+ * Count the samples in a WAV file's data chunk, using the format from its fmt chunk
+ */
+export function wavDurationSeconds(data: Buffer): number | undefined {
+  if (data.length < 12 || data.toString('latin1', 0, 4) !== 'RIFF' || data.toString('latin1', 8, 12) !== 'WAVE') {
+    return undefined;
+  }
+
+  let format: PcmFormat | undefined;
+  let offset = 12;
+  while (offset + 8 <= data.length) {
+    const chunkId = data.toString('latin1', offset, offset + 4);
+    const chunkSize = data.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ' && body + 16 <= data.length) {
+      format = {
+        channels: data.readUInt16LE(body + 2),
+        sampleRate: data.readUInt32LE(body + 4),
+        bitsPerSample: data.readUInt16LE(body + 14),
+      };
+    } else if (chunkId === 'data' && format) {
+      // Streamed WAVs leave the size at its maximum; count what is actually there
+      return pcmDurationSeconds(Math.min(chunkSize, data.length - body), format);
+    }
+    offset = body + chunkSize + (chunkSize % 2); // Chunks are word-aligned
+  }
+  return undefined;
+}
+
+/**
+ * Duration of an audio file in seconds, or undefined for formats that cannot be measured.
+ * Raw PCM takes its format from MIME parameters, e.g. "audio/pcm;rate=16000;channels=1" (16-bit).
+ */
+export function getAudioDurationSeconds(data: Buffer, mimeType: string): number | undefined {
+  const [type, ...params] = mimeType.toLowerCase().split(';').map(part => part.trim());
+
+  switch (type) {
+    case 'audio/mpeg':
+    case 'audio/mp3':
+      return mp3DurationSeconds(data);
+    case 'audio/wav':
+    case 'audio/wave':
+    case 'audio/x-wav':
+      return wavDurationSeconds(data);
+    case 'audio/pcm':
+    case 'audio/l16': {
+      const values = Object.fromEntries(params.map(param => param.split('=') as [string, string]));
+      const sampleRate = parseInt(values.rate, 10);
+      if (!sampleRate) return undefined;
+      return pcmDurationSeconds(data.length, {
+        sampleRate,
+        channels: parseInt(values.channels, 10) || 1,
+        bitsPerSample: 16,
+      });
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Seconds to charge for a duration: rounded up, so any audio costs at least a second
+ */
+export function billableSeconds(durationSeconds: number): number {
+  return durationSeconds > 0 ? Math.ceil(durationSeconds) : 0;
+}
+
+// Typical speaking rate, used when audio cannot be measured
+const WORDS_PER_MINUTE = 150;
+
+/**
+ * How long text takes to speak, in seconds
+ */
+export function estimateSpeechSeconds(text: string): number {
+  const words = text.trim().split(/\s+/).filter(Boolean).length;
+  return (words / WORDS_PER_MINUTE) * 60;
+}
+
+/**
+ * Seconds to charge for generated speech. Formats that cannot be measured (ogg, webm, opus, ...)
+ * are charged by the length of the spoken text, and audio that is not empty costs at least a second.
+ */
+export function speechBillableSeconds(data: Buffer, mimeType: string, text: string): number {
+  if (data.length === 0) return 0;
+  const measured = getAudioDurationSeconds(data, mimeType);
+  return Math.max(1, billableSeconds(measured || estimateSpeechSeconds(text)));
+}
@@ -0,0 +1,22 @@
+// Audio level detection
+// Tells speech from silence in raw 16-bit PCM. Compressed audio cannot be inspected without decoding it.
+
+/**
+ * Root-mean-square level of 16-bit PCM as a fraction of full scale (0 to 1), or undefined for
+ * formats that are not raw PCM. "audio/pcm" is little-endian; "audio/L16" is big-endian (RFC 2586).
+ */
+export function pcmLevel(data: Buffer, mimeType: string): number | undefined {
+  const type = mimeType.toLowerCase().split(';')[0].trim();
+  if (type !== 'audio/pcm' && type !== 'audio/l16') return undefined;
+
+  const sampleCount = Math.floor(data.length / 2);
+  if (sampleCount === 0) return 0;
+
+  const littleEndian = type === 'audio/pcm';
+  let sumOfSquares = 0;
+  for (let i = 0; i < sampleCount; i++) {
+    const sample = (littleEndian ? data.readInt16LE(i * 2) : data.readInt16BE(i * 2)) / 32768;
+    sumOfSquares += sample * sample;
+  }
+  return Math.sqrt(sumOfSquares / sampleCount);
+}
@@ -1,7 +1,7 @@
 import crypto from "crypto";
-import type { Request } from "express";
+import type { IncomingMessage } from "http";
 
-export function generateFingerprint(req: Request): string {
+export function generateFingerprint(req: IncomingMessage & { ip?: string }): string {
   const ip = req.ip || req.socket.remoteAddress || '';
   const userAgent = req.headers['user-agent'] || '';
   const acceptLanguage = req.headers['accept-language'] || '';
@@ -14,6 +14,11 @@ export function generateSecureToken(): string {
   return crypto.randomBytes(32).toString('hex');
 }
 
+// Shorter URL-safe token for public share links
+export function generateShareToken(): string {
+  return crypto.randomBytes(24).toString('base64url');
+}
+
 export function generateCookieToken(): string {
   return crypto.randomBytes(64).toString('hex');
 }
@@ -0,0 +1,15 @@
+import { storage } from "../storage";
+import type { Conversation, Session } from "@shared/schema";
+
+// Load a conversation only if it belongs to the session; soft-deleted ones are hidden unless asked for.
+// Wallet connects are not signed yet, so a shared wallet address does not grant access.
+export async function findOwnedConversation(
+  session: Session,
+  id: string,
+  { includeDeleted = false }: { includeDeleted?: boolean } = {}
+): Promise<Conversation | undefined> {
+  const conversation = await storage.getConversation(id);
+  if (!conversation || conversation.sessionId !== session.id) return undefined;
+  if (conversation.deletedAt && !includeDeleted) return undefined;
+  return conversation;
+}
@@ -0,0 +1,43 @@
+// Page meta tags rendered into index.html on the server, for link previews that run no JavaScript.
+// A route sets res.locals.pageMeta and calls next(); the HTML fallback injects the tags.
+
+export interface PageMeta {
+  title: string;
+  description: string;
+  url: string;
+  image: string;
+  largeImage?: boolean; // Use the large Twitter card, for pages with their own picture
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+export function injectPageMeta(html: string, meta: PageMeta | undefined): string {
+  if (!meta) return html;
+
+  const title = escapeAttribute(meta.title);
+  const description = escapeAttribute(meta.description);
+  const tags = [
+    `<meta property="og:type" content="article" />`,
+    `<meta property="og:site_name" content="AUtism GOLD" />`,
+    `<meta property="og:title" content="${title}" />`,
+    `<meta property="og:description" content="${description}" />`,
+    `<meta property="og:url" content="${escapeAttribute(meta.url)}" />`,
+    `<meta property="og:image" content="${escapeAttribute(meta.image)}" />`,
+    `<meta name="twitter:card" content="${meta.largeImage ? 'summary_large_image' : 'summary'}" />`,
+    `<meta name="twitter:title" content="${title}" />`,
+    `<meta name="twitter:description" content="${description}" />`,
+    `<meta name="twitter:image" content="${escapeAttribute(meta.image)}" />`,
+  ].join('\n    ');
+
+  // Replacement functions keep "$" in user text from being read as a replacement pattern
+  return html
+    .replace(/<title>[\s\S]*?<\/title>/, () => `<title>${title}</title>`)
+    .replace(/<meta name="description" content="[^"]*" \/>/, () => `<meta name="description" content="${description}" />`)
+    .replace(/\s*<\/head>/, () => `\n    ${tags}\n  </head>`);
+}
@@ -48,7 +48,10 @@ export async function incrementMessageCount(sessionId: string): Promise<void> {
   }
 }
 
-export async function checkVoiceRateLimit(session: Session, minutesRequested: number = 1): Promise<RateLimitResult> {
+/**
+ * Voice quota is metered in seconds of generated audio; limits and `remaining` are in minutes
+ */
+export async function checkVoiceRateLimit(session: Session, secondsRequested: number = 1): Promise<RateLimitResult> {
   const limits = getTierLimits(session.tier);
   const now = new Date();
   
@@ -67,7 +70,7 @@ export async function checkVoiceRateLimit(session: Session, minutesRequested: nu
     });
   }
 
-  const allowed = (rateLimit.voiceMinutesUsed + minutesRequested) <= limits.voiceLimit;
+  const allowed = (rateLimit.voiceSecondsUsed + secondsRequested) <= limits.voiceLimit * 60;
   const remaining = Math.max(0, limits.voiceLimit - rateLimit.voiceMinutesUsed);
 
   return {
@@ -78,11 +81,75 @@ export async function checkVoiceRateLimit(session: Session, minutesRequested: nu
   };
 }
 
-export async function incrementVoiceMinutes(sessionId: string, minutes: number): Promise<void> {
+export interface VoiceQuota {
+  usedSeconds: number;
+  limitSeconds: number;
+  remainingSeconds: number;
+  resetTime: Date;
+}
+
+/**
+ * Voice allowance of the current period in seconds, for metering live voice sessions
+ */
+export async function getVoiceQuota(session: Session): Promise<VoiceQuota> {
+  // Creates the period if there is none yet
+  const { resetTime } = await checkVoiceRateLimit(session, 0);
+  const rateLimit = await storage.getRateLimit(session.id);
+  const usedSeconds = rateLimit?.voiceSecondsUsed ?? 0;
+  const limitSeconds = getTierLimits(session.tier).voiceLimit * 60;
+
+  return {
+    usedSeconds,
+    limitSeconds,
+    remainingSeconds: Math.max(0, limitSeconds - usedSeconds),
+    resetTime,
+  };
+}
+
+export async function chargeVoiceSeconds(sessionId: string, seconds: number): Promise<void> {
+  if (seconds <= 0) return;
+  const rateLimit = await storage.getRateLimit(sessionId);
+  if (rateLimit) {
+    await storage.addVoiceSeconds(rateLimit.id, seconds);
+  }
+}
+
+export async function checkImageRateLimit(session: Session): Promise<RateLimitResult> {
+  const limits = getTierLimits(session.tier);
+  const now = new Date();
+  
+  // Get or create rate limit for current period
+  let rateLimit = await storage.getRateLimit(session.id);
+  
+  if (!rateLimit) {
+    // Images share the message period
+    const periodEnd = new Date(now.getTime() + limits.messagePeriodHours * 60 * 60 * 1000);
+    rateLimit = await storage.createRateLimit({
+      sessionId: session.id,
+      periodStart: now,
+      periodEnd,
+      messagesUsed: 0,
+      voiceMinutesUsed: 0,
+      imagesUsed: 0,
+    });
+  }
+
+  const allowed = rateLimit.imagesUsed < limits.imageLimit;
+  const remaining = Math.max(0, limits.imageLimit - rateLimit.imagesUsed);
+
+  return {
+    allowed,
+    remaining,
+    limit: limits.imageLimit,
+    resetTime: rateLimit.periodEnd,
+  };
+}
+
+export async function incrementImageCount(sessionId: string): Promise<void> {
   const rateLimit = await storage.getRateLimit(sessionId);
   if (rateLimit) {
     await storage.updateRateLimit(rateLimit.id, {
-      voiceMinutesUsed: rateLimit.voiceMinutesUsed + minutes,
+      imagesUsed: rateLimit.imagesUsed + 1,
     });
   }
 }
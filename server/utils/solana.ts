@@ -48,16 +48,19 @@ export function getTierLimits(tier: string): {
   messagePeriodHours: number;
   voiceLimit: number; 
   voicePeriodHours: number;
+  imageLimit: number;
+  memoryLimit: number;
+  voiceSelection: boolean; // May choose a voice instead of the personality's default
 } {
   switch (tier) {
     case "Gold":
-      return { messageLimit: 50, messagePeriodHours: 1, voiceLimit: 240, voicePeriodHours: 24 };
+      return { messageLimit: 50, messagePeriodHours: 1, voiceLimit: 240, voicePeriodHours: 24, imageLimit: 20, memoryLimit: 16000, voiceSelection: true };
     case "Pro":
-      return { messageLimit: 40, messagePeriodHours: 1, voiceLimit: 120, voicePeriodHours: 24 };
+      return { messageLimit: 40, messagePeriodHours: 1, voiceLimit: 120, voicePeriodHours: 24, imageLimit: 10, memoryLimit: 8000, voiceSelection: true };
     case "Electrum":
-      return { messageLimit: 20, messagePeriodHours: 1, voiceLimit: 60, voicePeriodHours: 24 };
+      return { messageLimit: 20, messagePeriodHours: 1, voiceLimit: 60, voicePeriodHours: 24, imageLimit: 5, memoryLimit: 4000, voiceSelection: false };
     default:
-      // Free Trial: 5 messages per 4 hours, 1 voice message per 4 hours
-      return { messageLimit: 5, messagePeriodHours: 4, voiceLimit: 1, voicePeriodHours: 4 };
+      // Free Trial: 5 messages per 4 hours, 1 voice message per 4 hours, 1 image per 4 hours, 1000 characters of memories
+      return { messageLimit: 5, messagePeriodHours: 4, voiceLimit: 1, voicePeriodHours: 4, imageLimit: 1, memoryLimit: 1000, voiceSelection: false };
   }
 }
@@ -0,0 +1,16 @@
+import type { Response } from "express";
+
+export function initEventStream(res: Response): void {
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  // Disable proxy buffering so chunks reach the browser immediately
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+}
+
+export function sendEvent(res: Response, event: string, data: unknown): void {
+  if (res.writableEnded || res.destroyed) return;
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
@@ -5,6 +5,7 @@ import { createServer as createViteServer, createLogger } from "vite";
 import { type Server } from "http";
 import viteConfig from "../vite.config";
 import { nanoid } from "nanoid";
+import { injectPageMeta } from "./utils/pageMeta";
 
 const viteLogger = createLogger();
 
@@ -59,7 +60,7 @@ export async function setupVite(app: Express, server: Server) {
         `src="/src/main.tsx?v=${nanoid()}"`,
       );
       const page = await vite.transformIndexHtml(url, template);
-      res.status(200).set({ "Content-Type": "text/html" }).end(page);
+      res.status(200).set({ "Content-Type": "text/html" }).end(injectPageMeta(page, res.locals.pageMeta));
     } catch (e) {
       vite.ssrFixStacktrace(e as Error);
       next(e);
@@ -79,7 +80,16 @@ export function serveStatic(app: Express) {
   app.use(express.static(distPath));
 
   // fall through to index.html if the file doesn't exist
-  app.use("*", (_req, res) => {
-    res.sendFile(path.resolve(distPath, "index.html"));
+  app.use("*", async (_req, res, next) => {
+    if (!res.locals.pageMeta) {
+      return res.sendFile(path.resolve(distPath, "index.html"));
+    }
+
+    try {
+      const template = await fs.promises.readFile(path.resolve(distPath, "index.html"), "utf-8");
+      res.status(200).set({ "Content-Type": "text/html" }).end(injectPageMeta(template, res.locals.pageMeta));
+    } catch (e) {
+      next(e);
+    }
   });
 }
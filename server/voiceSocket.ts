@@ -0,0 +1,113 @@
+// Voice WebSocket endpoint
+// Mounts /ws/voice on the HTTP server. The upgrade is authenticated with the session cookie and
+// checked against the persona, voice and conversation before the socket reaches the voice service.
+
+import { STATUS_CODES, type IncomingMessage, type Server } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer } from "ws";
+import { authenticateUpgrade } from "./middleware/session";
+import { findOwnedConversation } from "./utils/ownership";
+import { isAIPersonality } from "./config/personalities";
+import type { AIPersonality } from "./config/webhooks";
+import { voiceStreamingService } from "./services/voiceStreaming";
+import { resolveVoice } from "./services/tts";
+import { VOICE_PROTOCOL_VERSION, isSupportedVoiceProtocol } from "./services/voiceProtocol";
+import type { Conversation, Session } from "@shared/schema";
+
+export const VOICE_SOCKET_PATH = "/ws/voice";
+const MAX_FRAME_BYTES = 1024 * 1024; // Audio arrives in small chunks
+
+type UpgradeResult =
+  | { session: Session; conversation: Conversation; personality: AIPersonality; voiceId: string }
+  | { status: number; error: string };
+
+// Browsers send cookies with cross-site WebSocket upgrades, so only accept our own pages
+function isSameOrigin(req: IncomingMessage): boolean {
+  const origin = req.headers.origin;
+  if (!origin) return true; // Non-browser clients
+  const forwardedHost = req.headers["x-forwarded-host"];
+  const host = (Array.isArray(forwardedHost) ? forwardedHost[0] : forwardedHost) || req.headers.host;
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
+
+async function authorizeUpgrade(req: IncomingMessage, url: URL): Promise<UpgradeResult> {
+  if (!isSameOrigin(req)) {
+    return { status: 403, error: "Origin not allowed" };
+  }
+
+  const version = Number(url.searchParams.get("v"));
+  if (!isSupportedVoiceProtocol(version)) {
+    return { status: 400, error: `Protocol version ${VOICE_PROTOCOL_VERSION} is required` };
+  }
+
+  const session = await authenticateUpgrade(req);
+  if (!session) {
+    return { status: 401, error: "Session required" };
+  }
+
+  const personality = url.searchParams.get("personality");
+  if (!isAIPersonality(personality)) {
+    return { status: 400, error: "Invalid personality" };
+  }
+
+  // Optional; tiers without voice selection get a 403 rather than a silent fallback
+  const voice = resolveVoice(session.tier, personality, url.searchParams.get("voiceId"));
+  if ("error" in voice) {
+    return voice;
+  }
+
+  const conversationId = url.searchParams.get("conversationId");
+  const conversation = conversationId ? await findOwnedConversation(session, conversationId) : undefined;
+  if (!conversation) {
+    return { status: 404, error: "Conversation not found" };
+  }
+
+  return { session, conversation, personality, voiceId: voice.voiceId };
+}
+
+// Answer the upgrade with a plain HTTP error; the socket has not become a WebSocket yet
+function rejectUpgrade(socket: Duplex, status: number, message: string): void {
+  socket.end(
+    `HTTP/1.1 ${status} ${STATUS_CODES[status]}\r\n` +
+    "Connection: close\r\n" +
+    "Content-Type: text/plain; charset=utf-8\r\n" +
+    `Content-Length: ${Buffer.byteLength(message)}\r\n\r\n` +
+    message
+  );
+}
+
+export function registerVoiceSocket(httpServer: Server): void {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_FRAME_BYTES });
+
+  httpServer.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url || "/", "http://localhost");
+    // Other upgrades, such as Vite's HMR socket in development, have their own listeners
+    if (url.pathname !== VOICE_SOCKET_PATH) return;
+
+    authorizeUpgrade(req, url)
+      .then((result) => {
+        if ("error" in result) {
+          rejectUpgrade(socket, result.status, result.error);
+          return;
+        }
+
+        wss.handleUpgrade(req, socket, head, (ws) => {
+          voiceStreamingService.initializeVoiceSession(
+            ws,
+            result.session.id,
+            result.conversation.id,
+            result.personality,
+            result.voiceId
+          );
+        });
+      })
+      .catch((error) => {
+        console.error("Error authorizing voice socket:", error);
+        rejectUpgrade(socket, 500, "Failed to open voice session");
+      });
+  });
+}
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, boolean, jsonb, index } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, boolean, jsonb, index, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -29,21 +29,40 @@ export const sessions = pgTable("sessions", {
   walletAddressIdx: index("wallet_address_idx").on(table.walletAddress),
 }));
 
+// Full-text search vectors, shared by the GIN indexes and the search queries so Postgres can use the indexes.
+// Queries must parse search terms with the same 'english' configuration.
+export const conversationSearchVector = (title: AnyPgColumn) =>
+  sql`to_tsvector('english', coalesce(${title}, ''))`;
+
+export const messageSearchVector = (content: AnyPgColumn) =>
+  sql`to_tsvector('english', ${content})`;
+
 // Conversations table
 export const conversations = pgTable("conversations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   sessionId: varchar("session_id").references(() => sessions.id).notNull(),
   title: text("title"),
+  titleSource: text("title_source").default("message").notNull(), // "message" (start of the first message), "generated" or "user"
+  summary: text("summary"), // Rolling summary of the oldest turns, sent instead of them
+  summaryThroughMessageId: varchar("summary_through_message_id"), // Last message the summary covers
+  pinned: boolean("pinned").default(false).notNull(),
+  archivedAt: timestamp("archived_at"),
+  deletedAt: timestamp("deleted_at"), // Soft delete; restorable until purged
+  activeLeafMessageId: varchar("active_leaf_message_id"), // Last message of the branch currently shown
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => ({
   sessionIdIdx: index("conversation_session_idx").on(table.sessionId),
+  // Full-text index for /api/search; queries must use the same expression (see conversationSearchVector)
+  titleSearchIdx: index("conversation_title_search_idx").using("gin", conversationSearchVector(table.title)),
 }));
 
 // Messages table
 export const messages = pgTable("messages", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   conversationId: varchar("conversation_id").references(() => conversations.id, { onDelete: "cascade" }).notNull(),
+  // Previous message in the thread; edits and regenerations add siblings under the same parent
+  parentMessageId: varchar("parent_message_id").references((): AnyPgColumn => messages.id, { onDelete: "cascade" }),
   role: text("role").notNull(), // "user" or "assistant"
   content: text("content").notNull(),
   isImage: boolean("is_image").default(false).notNull(),
@@ -54,6 +73,38 @@ export const messages = pgTable("messages", {
 }, (table) => ({
   conversationIdIdx: index("message_conversation_idx").on(table.conversationId),
   createdAtIdx: index("message_created_at_idx").on(table.createdAt),
+  parentMessageIdIdx: index("message_parent_idx").on(table.parentMessageId),
+  contentSearchIdx: index("message_content_search_idx").using("gin", messageSearchVector(table.content)),
+}));
+
+// Attachments table - files uploaded by users and sent along with a message
+export const attachments = pgTable("attachments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").references(() => sessions.id).notNull(),
+  conversationId: varchar("conversation_id").references(() => conversations.id, { onDelete: "cascade" }),
+  messageId: varchar("message_id").references(() => messages.id, { onDelete: "cascade" }), // Set once the message is sent
+  kind: text("kind").notNull(), // "image" or "document"
+  fileName: text("file_name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(), // Size in bytes
+  storageKey: text("storage_key").notNull(), // Blob storage key of the file
+  textChunks: jsonb("text_chunks").$type<string[]>(), // Cached plain-text chunks extracted from documents
+  extractionError: text("extraction_error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  sessionIdIdx: index("attachment_session_idx").on(table.sessionId),
+  messageIdIdx: index("attachment_message_idx").on(table.messageId),
+}));
+
+// Memory Bank table - facts the user wants the AI to remember, included in every prompt
+export const memories = pgTable("memories", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").references(() => sessions.id).notNull(), // Session that wrote the memory
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  sessionIdIdx: index("memory_session_idx").on(table.sessionId),
 }));
 
 // Audio cache table - stores all generated audio files securely
@@ -64,9 +115,13 @@ export const audioCache = pgTable("audio_cache", {
   messageId: varchar("message_id").references(() => messages.id, { onDelete: "cascade" }),
   audioUrl: text("audio_url").notNull(),
   secureToken: text("secure_token").notNull().unique(), // For secure access
+  storageKey: text("storage_key"), // Blob storage key; null for entries from before audio was stored
+  mimeType: text("mime_type"),
+  sizeBytes: integer("size_bytes"),
   text: text("text").notNull(), // Original text that was converted to speech
   duration: integer("duration"), // Duration in seconds
-  voiceSettings: jsonb("voice_settings"), // ElevenLabs voice configuration
+  voiceSettings: jsonb("voice_settings"), // TTS provider, model and voice ID
+  expiresAt: timestamp("expires_at"), // The secure token stops working after this; admins can still replay
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => ({
   sessionIdIdx: index("audio_session_idx").on(table.sessionId),
@@ -82,12 +137,59 @@ export const rateLimits = pgTable("rate_limits", {
   periodStart: timestamp("period_start").defaultNow().notNull(),
   periodEnd: timestamp("period_end").notNull(),
   messagesUsed: integer("messages_used").default(0).notNull(),
-  voiceMinutesUsed: integer("voice_minutes_used").default(0).notNull(),
+  voiceMinutesUsed: integer("voice_minutes_used").default(0).notNull(), // voiceSecondsUsed rounded up to whole minutes
+  voiceSecondsUsed: integer("voice_seconds_used").default(0).notNull(), // Measured from the generated audio
+  imagesUsed: integer("images_used").default(0).notNull(),
 }, (table) => ({
   sessionIdIdx: index("rate_limit_session_idx").on(table.sessionId),
   periodEndIdx: index("rate_limit_period_end_idx").on(table.periodEnd),
 }));
 
+// Generated images table - images produced for requestImage messages, served by secure token
+export const generatedImages = pgTable("generated_images", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").references(() => sessions.id).notNull(),
+  conversationId: varchar("conversation_id").references(() => conversations.id, { onDelete: "cascade" }).notNull(),
+  messageId: varchar("message_id").references(() => messages.id, { onDelete: "cascade" }),
+  secureToken: text("secure_token").notNull().unique(), // For secure access
+  storageKey: text("storage_key").notNull(), // Blob storage key of the image file
+  mimeType: text("mime_type").notNull(),
+  prompt: text("prompt").notNull(),
+  provider: text("provider").notNull(), // "gemini", "placeholder"
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  sessionIdIdx: index("image_session_idx").on(table.sessionId),
+  conversationIdIdx: index("image_conversation_idx").on(table.conversationId),
+  secureTokenIdx: index("image_secure_token_idx").on(table.secureToken),
+}));
+
+// Read-only copy of a conversation's active branch, taken when a share link is created
+export interface ShareSnapshot {
+  title: string | null;
+  messages: {
+    role: "user" | "assistant";
+    content: string;
+    personality: string | null;
+    imageUrl: string | null; // App path of a generated image; served publicly through the share link
+    createdAt: string;
+  }[];
+}
+
+// Share links table - public, revocable links to a conversation snapshot
+export const shareLinks = pgTable("share_links", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").references(() => sessions.id).notNull(), // Session that created the link
+  conversationId: varchar("conversation_id").references(() => conversations.id, { onDelete: "cascade" }).notNull(),
+  token: text("token").notNull().unique(), // Public part of the share URL
+  snapshot: jsonb("snapshot").$type<ShareSnapshot>().notNull(),
+  viewCount: integer("view_count").default(0).notNull(),
+  lastViewedAt: timestamp("last_viewed_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  conversationIdIdx: index("share_link_conversation_idx").on(table.conversationId),
+}));
+
 // Webhook logs table - track n8n webhook calls
 export const webhookLogs = pgTable("webhook_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -124,6 +226,19 @@ export const insertMessageSchema = createInsertSchema(messages).omit({
   createdAt: true,
 });
 
+export const insertAttachmentSchema = createInsertSchema(attachments, {
+  textChunks: z.array(z.string()).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertMemorySchema = createInsertSchema(memories).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertAudioCacheSchema = createInsertSchema(audioCache).omit({
   id: true,
   createdAt: true,
@@ -133,6 +248,18 @@ export const insertRateLimitSchema = createInsertSchema(rateLimits).omit({
   id: true,
 });
 
+export const insertGeneratedImageSchema = createInsertSchema(generatedImages).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertShareLinkSchema = createInsertSchema(shareLinks, {
+  snapshot: z.custom<ShareSnapshot>(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertWebhookLogSchema = createInsertSchema(webhookLogs).omit({
   id: true,
   createdAt: true,
@@ -151,11 +278,23 @@ export type Conversation = typeof conversations.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type Message = typeof messages.$inferSelect;
 
+export type InsertAttachment = z.infer<typeof insertAttachmentSchema>;
+export type Attachment = typeof attachments.$inferSelect;
+
+export type InsertMemory = z.infer<typeof insertMemorySchema>;
+export type Memory = typeof memories.$inferSelect;
+
 export type InsertAudioCache = z.infer<typeof insertAudioCacheSchema>;
 export type AudioCache = typeof audioCache.$inferSelect;
 
 export type InsertRateLimit = z.infer<typeof insertRateLimitSchema>;
 export type RateLimit = typeof rateLimits.$inferSelect;
 
+export type InsertGeneratedImage = z.infer<typeof insertGeneratedImageSchema>;
+export type GeneratedImage = typeof generatedImages.$inferSelect;
+
+export type InsertShareLink = z.infer<typeof insertShareLinkSchema>;
+export type ShareLink = typeof shareLinks.$inferSelect;
+
 export type InsertWebhookLog = z.infer<typeof insertWebhookLogSchema>;
 export type WebhookLog = typeof webhookLogs.$inferSelect;